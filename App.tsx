@@ -1,48 +1,157 @@
 
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { LogEntry } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { ChartMode, ClinicalThresholds, DaySettings, DisplaySettings, GlucoseUnit, LogEntry, Medication, PeriodSelection, Profile, ReminderSettings, VolumeUnit } from './types';
 import useLocalStorage from './hooks/useLocalStorage';
-import { PlusIcon, CopyIcon, TrashIcon, ChartBarIcon, ListBulletIcon, XMarkIcon, InstallIcon } from './components/Icons';
+import useLogStore from './hooks/useLogStore';
+import useProfiles, { ProfilesState } from './hooks/useProfiles';
+import useAppLock, { AppLockState } from './hooks/useAppLock';
+import useLocale from './hooks/useLocale';
+import useReminders from './hooks/useReminders';
+import useServiceWorker from './hooks/useServiceWorker';
+import { PlusIcon, CopyIcon, TrashIcon, ChartBarIcon, ListBulletIcon, XMarkIcon, InstallIcon, ClockIcon, ArrowsUpDownIcon, PrinterIcon, CogIcon, ChartPieIcon, GlassIcon, DropIcon, PillIcon, UsersIcon, LockClosedIcon, ExclamationTriangleIcon } from './components/Icons';
+import EntryDetailSheet, { EntrySheetMode } from './components/EntryDetailSheet';
+import DataTransferModal from './components/DataTransferModal';
+import LogChart from './components/LogChart';
+import ClinicianReport from './components/ClinicianReport';
+import SettingsModal from './components/SettingsModal';
+import StatsDashboard from './components/StatsDashboard';
+import GlucoseCorrelation from './components/GlucoseCorrelation';
+import MedicationComparison from './components/MedicationComparison';
+import MedicationsModal from './components/MedicationsModal';
+import ProfilesModal from './components/ProfilesModal';
+import LockScreen from './components/LockScreen';
+import LockSettingsModal from './components/LockSettingsModal';
+import TimeOfDayChart, { describeTimeSlot, TimeSlot } from './components/TimeOfDayChart';
+import CalendarView from './components/CalendarView';
+import PeriodPicker from './components/PeriodPicker';
+import LargeButtonScreen from './components/LargeButtonScreen';
+import { DEFAULT_DAY_SETTINGS, dayKeyOf, sanitizeDaySettings, selectionRange, todayKey, weekdayIndex } from './utils/dates';
+import { entriesInRange } from './utils/stats';
+import { describeEntryDetails, formatDayKey, formatTimestamp, sanitizeGlucoseUnit, sanitizeVolumeUnit } from './utils/format';
+import { profileStorageKey } from './utils/profiles';
+import { DEFAULT_THRESHOLDS, describeExceedance, flagDays, recentThresholdAlert, sanitizeThresholds, ThresholdExceedance } from './utils/thresholds';
+import { createEntryId, isDose, isGlucose, isIntake, isVoid, sanitizeMedications } from './utils/schema';
+import { MessageKey, t } from './i18n';
+
+// A second tap on the main button within this window is treated as accidental.
+const DOUBLE_TAP_WINDOW_MS = 5000;
+
+// Query parameter set by the manifest shortcuts: ?action=log | intake | today.
+const URL_ACTION_PARAM = 'action';
+
+// Desktop keyboard shortcuts; the letters are the same in every language.
+const KEYBOARD_SHORTCUTS = {
+    void: 'v',
+    intake: 'd',
+    glucose: 'g',
+    pastEntry: 'p',
+    today: 't',
+    list: 'l',
+    chart: 'c',
+    stats: 's',
+};
+
+// "Log drink (D)": the shortcut goes in the tooltip, where desktop users will come across it.
+const withShortcut = (label: string, key: string): string => `${label} (${key.toUpperCase()})`;
+
+type AppView = 'list' | 'chart' | 'stats';
 
-// Helper function to format dates and times in Spanish
-const formatTimestamp = (timestamp: number, options: Intl.DateTimeFormatOptions): string => {
-    return new Intl.DateTimeFormat('es-ES', options).format(new Date(timestamp));
+const CHART_MODE_LABEL_KEYS: Record<ChartMode, MessageKey> = {
+    daily: 'chartMode.daily',
+    fluid: 'chartMode.fluid',
+    hourly: 'chartMode.hourly',
+    glucose: 'chartMode.glucose',
+    calendar: 'chartMode.calendar',
 };
 
-type ChartPeriod = 'week' | 'month' | 'all';
+// What the details modal is showing: one diary day, or one slot of the time-of-day chart.
+type DetailsSelection = { kind: 'day'; dayKey: string } | { kind: 'slot'; slot: TimeSlot };
+
+const sortByNewest = (entries: LogEntry[]): LogEntry[] => [...entries].sort((a, b) => b.timestamp - a.timestamp);
+
+interface ToastState {
+    id: number;
+    message: string;
+    action?: { label: string; onClick: () => void };
+}
 
 // --- Sub-components defined outside the main App component ---
 
+interface EntryDetailsLineProps {
+    entry: LogEntry;
+    volumeUnit: VolumeUnit;
+    glucoseUnit: GlucoseUnit;
+}
+
+const detailsColor = (entry: LogEntry): string => {
+    if (entry.leakage) return 'text-amber-600 dark:text-amber-400';
+    if (isIntake(entry)) return 'text-cyan-700 dark:text-cyan-400';
+    if (isGlucose(entry)) return 'text-rose-700 dark:text-rose-400';
+    if (isDose(entry)) return 'text-violet-700 dark:text-violet-400';
+    return 'text-gray-500 dark:text-gray-400';
+};
+
+// Marks the rows that are not voids: drinks, glucose readings and medication doses.
+const EntryKindIcon: React.FC<{ entry: LogEntry }> = ({ entry }) => {
+    const className = 'w-5 h-5 mr-3 shrink-0';
+    if (isIntake(entry)) return <GlassIcon className={`${className} text-cyan-600 dark:text-cyan-400`} />;
+    if (isGlucose(entry)) return <DropIcon className={`${className} text-rose-600 dark:text-rose-400`} />;
+    if (isDose(entry)) return <PillIcon className={`${className} text-violet-600 dark:text-violet-400`} />;
+    return null;
+};
+
+const EntryDetailsLine: React.FC<EntryDetailsLineProps> = ({ entry, volumeUnit, glucoseUnit }) => {
+    const details = describeEntryDetails(entry, volumeUnit, glucoseUnit);
+    if (details.length === 0) return null;
+
+    return (
+        <p className={`text-sm truncate ${detailsColor(entry)}`}>
+            {details.join(' · ')}
+        </p>
+    );
+};
+
 interface LogListProps {
     entries: LogEntry[];
+    volumeUnit: VolumeUnit;
+    glucoseUnit: GlucoseUnit;
+    daySettings: DaySettings;
+    // Days above the clinical thresholds, marked in their headers.
+    flaggedDays: Map<string, ThresholdExceedance[]>;
+    // The entries are limited to a date range, so an empty list doesn't mean an empty log.
+    filtered: boolean;
+    onEntryClick: (entry: LogEntry) => void;
 }
 
-const LogList: React.FC<LogListProps> = ({ entries }) => {
+const LogList: React.FC<LogListProps> = ({ entries, volumeUnit, glucoseUnit, daySettings, flaggedDays, filtered, onEntryClick }) => {
     const groupedEntries = useMemo(() => {
         return entries.reduce((acc, entry) => {
-            const date = formatTimestamp(entry.timestamp, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' });
+            const date = dayKeyOf(entry.timestamp, daySettings);
             if (!acc[date]) {
                 acc[date] = [];
             }
             acc[date].push(entry);
             return acc;
         }, {} as Record<string, LogEntry[]>);
-    }, [entries]);
+    }, [entries, daySettings]);
 
     const sortedDates = useMemo(() => {
-        return Object.keys(groupedEntries).sort((a, b) => {
-            const dateA = groupedEntries[a][0].timestamp;
-            const dateB = groupedEntries[b][0].timestamp;
-            return dateB - dateA;
-        });
+        return Object.keys(groupedEntries).sort((a, b) => b.localeCompare(a));
     }, [groupedEntries]);
 
+    if (entries.length === 0 && filtered) {
+        return (
+            <div className="text-center py-16 px-4">
+                <p className="text-gray-500 dark:text-gray-400">{t('list.emptyRange')}</p>
+            </div>
+        );
+    }
     if (entries.length === 0) {
         return (
             <div className="text-center py-16 px-4">
-                <p className="text-gray-500 dark:text-gray-400">No hay registros todavía.</p>
-                <p className="text-gray-500 dark:text-gray-400 mt-2">Presiona el botón '+' para empezar.</p>
+                <p className="text-gray-500 dark:text-gray-400">{t('list.empty')}</p>
+                <p className="text-gray-500 dark:text-gray-400 mt-2">{t('list.emptyHint')}</p>
             </div>
         );
     }
@@ -51,16 +160,35 @@ const LogList: React.FC<LogListProps> = ({ entries }) => {
         <div className="space-y-6 pb-28">
             {sortedDates.map(date => (
                 <div key={date}>
-                    <h2 className="text-lg font-semibold text-blue-700 dark:text-blue-400 capitalize bg-gray-200 dark:bg-gray-800 px-4 py-2 rounded-t-lg sticky top-16 z-10">{date}</h2>
+                    <h2 className="text-lg font-semibold text-blue-700 dark:text-blue-400 bg-gray-200 dark:bg-gray-800 px-4 py-2 rounded-t-lg sticky top-16 z-10 flex flex-wrap items-center gap-x-3 gap-y-1">
+                        <span className="capitalize">{formatDayKey(date, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' })}</span>
+                        {flaggedDays.get(date)?.map(flag => (
+                            <span key={flag.kind} className="flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+                                <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1" />
+                                {describeExceedance(flag, volumeUnit)}
+                            </span>
+                        ))}
+                    </h2>
                     <ul className="bg-white dark:bg-gray-800/50 shadow-md rounded-b-lg divide-y divide-gray-200 dark:divide-gray-700">
                         {groupedEntries[date].sort((a, b) => b.timestamp - a.timestamp).map(entry => (
-                            <li key={entry.id} className="px-4 py-3 flex justify-between items-center">
-                                <span className="text-gray-800 dark:text-gray-200 font-medium">
-                                    {formatTimestamp(entry.timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true })}
-                                </span>
-                                <span className="text-sm text-gray-500 dark:text-gray-400">
-                                    {formatTimestamp(entry.timestamp, { day: '2-digit', month: '2-digit', year: 'numeric' })}
-                                </span>
+                            <li key={entry.id}>
+                                <button
+                                    onClick={() => onEntryClick(entry)}
+                                    className="w-full text-left px-4 py-3 flex justify-between items-center hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                                >
+                                    <div className="min-w-0 flex items-center">
+                                        <EntryKindIcon entry={entry} />
+                                        <div className="min-w-0">
+                                            <span className="text-gray-800 dark:text-gray-200 font-medium">
+                                                {formatTimestamp(entry.timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                                            </span>
+                                            <EntryDetailsLine entry={entry} volumeUnit={volumeUnit} glucoseUnit={glucoseUnit} />
+                                        </div>
+                                    </div>
+                                    <span className="text-sm text-gray-500 dark:text-gray-400 shrink-0 ml-2">
+                                        {formatTimestamp(entry.timestamp, { day: '2-digit', month: '2-digit', year: 'numeric' })}
+                                    </span>
+                                </button>
                             </li>
                         ))}
                     </ul>
@@ -70,127 +198,42 @@ const LogList: React.FC<LogListProps> = ({ entries }) => {
     );
 };
 
-interface LogChartProps {
-    entries: LogEntry[];
-    period: ChartPeriod;
-    onBarClick: (date: string) => void;
-}
-
-const LogChart: React.FC<LogChartProps> = ({ entries, period, onBarClick }) => {
-    const chartData = useMemo(() => {
-        const now = new Date();
-        const oneDay = 1000 * 60 * 60 * 24;
-
-        const filteredEntries = entries.filter(entry => {
-            if (period === 'week') {
-                return (now.getTime() - entry.timestamp) / oneDay < 7;
-            }
-            if (period === 'month') {
-                return (now.getTime() - entry.timestamp) / oneDay < 30;
-            }
-            return true;
-        });
-        
-        // FIX: Cast the initial value of the reduce function to ensure the accumulator `acc` has the correct type.
-        // This resolves issues where TypeScript fails to infer the type, leading to property access errors.
-        const countsByDay = filteredEntries.reduce((acc, entry) => {
-            const date = new Date(entry.timestamp);
-            date.setHours(0, 0, 0, 0);
-            const dateString = date.toISOString().split('T')[0];
-            
-            if (!acc[dateString]) {
-                acc[dateString] = { count: 0, date: date };
-            }
-            acc[dateString].count++;
-            return acc;
-        }, {} as Record<string, { count: number; date: Date }>);
-        
-        return Object.entries(countsByDay)
-            .map(([dateString, { count, date }]) => ({
-                label: formatTimestamp(date.getTime(), { day: 'numeric', month: 'short' }),
-                value: count,
-                date: date,
-                fullDate: dateString,
-            }))
-            .sort((a, b) => a.date.getTime() - b.date.getTime());
-
-    }, [entries, period]);
-
-    if (chartData.length === 0) {
-        return (
-            <div className="text-center py-16 px-4">
-                <p className="text-gray-500 dark:text-gray-400">No hay datos para mostrar en el gráfico.</p>
-                <p className="text-gray-500 dark:text-gray-400 mt-2">Ajusta el período o presiona '+' para registrar.</p>
-            </div>
-        );
-    }
-
-    const maxValue = Math.max(...chartData.map(d => d.value), 0);
-    const yAxisTop = maxValue <= 5 ? maxValue : Math.ceil(maxValue / 5) * 5;
-    const numTicks = yAxisTop > 0 ? Math.min(yAxisTop, 5) : 0;
-    const yAxisLabels = yAxisTop > 0 ? Array.from({ length: numTicks + 1 }, (_, i) => Math.round((yAxisTop / numTicks) * i)) : [0];
-
-    const chartHeight = 250;
-    const chartPadding = { top: 20, right: 20, bottom: 40, left: 30 };
-    const chartWidth = 500;
-
-    return (
-        <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
-            <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} role="img" aria-label="Gráfico de barras de registros de micción por día." style={{ minWidth: `${Math.max(300, chartData.length * 50)}px` }}>
-                {yAxisLabels.map((label, i) => {
-                    const y = chartPadding.top + (chartHeight - chartPadding.top - chartPadding.bottom) * (1 - label / (yAxisTop || 1));
-                    return (
-                        <g key={i}>
-                            <text x={chartPadding.left - 8} y={y} textAnchor="end" dy="0.3em" className="text-xs fill-current text-gray-500 dark:text-gray-400">{label}</text>
-                            <line x1={chartPadding.left} x2={chartWidth - chartPadding.right} y1={y} y2={y} className="stroke-current text-gray-200 dark:text-gray-700" strokeWidth="1" />
-                        </g>
-                    );
-                })}
-
-                {chartData.map((d, i) => {
-                    const barWidth = (chartWidth - chartPadding.left - chartPadding.right) / chartData.length * 0.6;
-                    const x = chartPadding.left + i * ((chartWidth - chartPadding.left - chartPadding.right) / chartData.length) + barWidth * 0.33;
-                    const barHeight = Math.max(0, (chartHeight - chartPadding.top - chartPadding.bottom) * (d.value / (yAxisTop || 1)));
-                    const y = chartPadding.top + (chartHeight - chartPadding.top - chartPadding.bottom) - barHeight;
-
-                    return (
-                        <g key={d.label} onClick={() => onBarClick(d.fullDate)} className="cursor-pointer group">
-                            <title>{`${d.label}: ${d.value} ${d.value === 1 ? 'vez' : 'veces'}`}</title>
-                            <rect x={x} y={y} width={barWidth} height={barHeight} className="fill-current text-blue-500 group-hover:text-blue-400 transition-colors" />
-                            <text x={x + barWidth / 2} y={y - 5} textAnchor="middle" className="text-xs font-bold fill-current text-gray-700 dark:text-gray-200">{d.value}</text>
-                            <text x={x + barWidth / 2} y={chartHeight - chartPadding.bottom + 15} textAnchor="middle" className="text-xs fill-current text-gray-500 dark:text-gray-400">{d.label}</text>
-                        </g>
-                    );
-                })}
-            </svg>
-        </div>
-    );
-};
-
 interface DetailsModalProps {
+    title: string;
     dayData: LogEntry[];
+    // Entries may come from different days (time-of-day drill-down), so show the date next to each time.
+    showDates?: boolean;
+    volumeUnit: VolumeUnit;
+    glucoseUnit: GlucoseUnit;
+    onEntryClick: (entry: LogEntry) => void;
     onClose: () => void;
 }
 
-const DetailsModal: React.FC<DetailsModalProps> = ({ dayData, onClose }) => {
+const DetailsModal: React.FC<DetailsModalProps> = ({ title, dayData, showDates, volumeUnit, glucoseUnit, onEntryClick, onClose }) => {
     if (!dayData || dayData.length === 0) return null;
 
-    const modalDate = formatTimestamp(dayData[0].timestamp, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' });
-
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
                 <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
-                    <h3 className="text-lg font-semibold capitalize">{modalDate}</h3>
-                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+                    <h3 className="text-lg font-semibold capitalize">{title}</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
                         <XMarkIcon className="w-5 h-5" />
                     </button>
                 </div>
                 <ul className="p-4 max-h-[60vh] overflow-y-auto">
                     {dayData.sort((a,b) => b.timestamp - a.timestamp).map(entry => (
-                         <li key={entry.id} className="py-2 flex justify-between items-center border-b dark:border-gray-700/50 last:border-b-0">
-                            <span className="font-medium">Hora:</span>
-                            <span>{formatTimestamp(entry.timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true })}</span>
+                         <li key={entry.id} className="border-b dark:border-gray-700/50 last:border-b-0">
+                            <button onClick={() => onEntryClick(entry)} className="w-full text-left py-2 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-medium flex items-center">
+                                        <EntryKindIcon entry={entry} />
+                                        {showDates ? formatTimestamp(entry.timestamp, { weekday: 'short', day: 'numeric', month: 'short' }) : t('details.timeLabel')}
+                                    </span>
+                                    <span>{formatTimestamp(entry.timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
+                                </div>
+                                <EntryDetailsLine entry={entry} volumeUnit={volumeUnit} glucoseUnit={glucoseUnit} />
+                            </button>
                          </li>
                     ))}
                 </ul>
@@ -199,27 +242,72 @@ const DetailsModal: React.FC<DetailsModalProps> = ({ dayData, onClose }) => {
     );
 };
 
+const UpdateBanner: React.FC<{ onApply: () => void }> = ({ onApply }) => (
+    <div className="fixed top-0 inset-x-0 bg-blue-600 text-white px-4 py-2 shadow-lg z-[60] flex items-center justify-center space-x-4 print:hidden" role="status">
+        <span>{t('update.available')}</span>
+        <button onClick={onApply} className="font-semibold uppercase text-sm px-3 py-1 rounded-md bg-white/20 hover:bg-white/30">
+            {t('update.reload')}
+        </button>
+    </div>
+);
+
+interface ProfileDiaryProps {
+    profiles: ProfilesState;
+    appLock: AppLockState;
+    displaySettings: DisplaySettings;
+    onDisplaySettingsChange: (settings: DisplaySettings) => void;
+}
 
-const App: React.FC = () => {
-    const [log, setLog] = useLocalStorage<LogEntry[]>('urinationLog', []);
-    const [toastMessage, setToastMessage] = useState<string | null>(null);
-    const [view, setView] = useState<'list' | 'chart'>('list');
-    const [chartPeriod, setChartPeriod] = useState<ChartPeriod>('all');
-    const [selectedDayData, setSelectedDayData] = useState<LogEntry[] | null>(null);
+// Everything below is scoped to the open profile; App remounts it when switching.
+const ProfileDiary: React.FC<ProfileDiaryProps> = ({ profiles: profileState, appLock, displaySettings, onDisplaySettingsChange }) => {
+    const { profiles, activeProfile: profile, switchProfile, addProfile, renameProfile, deleteProfile } = profileState;
+    const [toast, setToast] = useState<ToastState | null>(null);
+    const toastTimer = useRef<number | undefined>(undefined);
+
+    const showToast = useCallback((message: string, action?: ToastState['action']) => {
+        window.clearTimeout(toastTimer.current);
+        setToast({ id: Date.now(), message, action });
+        // Toasts with an action (e.g. undo) stay up longer so there is time to tap them.
+        toastTimer.current = window.setTimeout(() => setToast(null), action ? 5000 : 2000);
+    }, []);
+
+    const [log, setLog, logReady] = useLogStore(profile.id, showToast);
+    const [volumeUnit, setVolumeUnit] = useLocalStorage<VolumeUnit>(profileStorageKey(profile.id, 'volumeUnit'), 'ml', { deserialize: sanitizeVolumeUnit });
+    const [glucoseUnit, setGlucoseUnit] = useLocalStorage<GlucoseUnit>(profileStorageKey(profile.id, 'glucoseUnit'), 'mg/dL', { deserialize: sanitizeGlucoseUnit });
+    const [medications, setMedications] = useLocalStorage<Medication[]>(profileStorageKey(profile.id, 'medications'), [], { deserialize: sanitizeMedications });
+    const [showMedications, setShowMedications] = useState(false);
+    const [editor, setEditor] = useState<{ entry: LogEntry; mode: EntrySheetMode } | null>(null);
+    const [view, setView] = useState<AppView>('list');
+    // The custom dates are filled in from the current range when 'custom' is picked.
+    const [periodSelection, setPeriodSelection] = useState<PeriodSelection>({ period: 'all', offset: 0, fromKey: '', toKey: '' });
+    const [chartMode, setChartMode] = useState<ChartMode>('daily');
+    const [selection, setSelection] = useState<DetailsSelection | null>(null);
+    const [daySettings, setDaySettings] = useLocalStorage<DaySettings>(profileStorageKey(profile.id, 'daySettings'), DEFAULT_DAY_SETTINGS, { deserialize: sanitizeDaySettings });
+    const [showSettings, setShowSettings] = useState(false);
+    const [showTransfer, setShowTransfer] = useState(false);
+    const [showReport, setShowReport] = useState(false);
+    const [showProfiles, setShowProfiles] = useState(false);
+    const [showLockSettings, setShowLockSettings] = useState(false);
+    const [patientName, setPatientName] = useLocalStorage<string>(
+        profileStorageKey(profile.id, 'patientName'),
+        profile.name,
+        { deserialize: raw => typeof raw === 'string' ? raw : profile.name },
+    );
+    const [thresholds, setThresholds] = useLocalStorage<ClinicalThresholds>(profileStorageKey(profile.id, 'thresholds'), DEFAULT_THRESHOLDS, { deserialize: sanitizeThresholds });
+    const [alertDismissed, setAlertDismissed] = useState(false);
     const [installPromptEvent, setInstallPromptEvent] = useState<any>(null);
 
-    useEffect(() => {
-        // PWA: Service Worker registration
-        if ('serviceWorker' in navigator) {
-            window.addEventListener('load', () => {
-                navigator.serviceWorker.register('/sw.js').then(registration => {
-                    console.log('ServiceWorker registration successful with scope: ', registration.scope);
-                }, err => {
-                    console.log('ServiceWorker registration failed: ', err);
-                });
-            });
-        }
+    // Drinks and glucose readings are listed alongside voids but never count towards void statistics.
+    const voids = useMemo(() => log.filter(isVoid), [log]);
+    const lastLogTimestamp = useMemo(() => voids.length > 0 ? voids.reduce((max, entry) => Math.max(max, entry.timestamp), 0) : null, [voids]);
+    const [reminderSettings, saveReminderSettings] = useReminders(profile, profiles, lastLogTimestamp, showToast);
+    const range = useMemo(() => selectionRange(periodSelection, daySettings), [periodSelection, daySettings]);
+    // The list, copy and export follow the selected dates.
+    const rangeLog = useMemo(() => entriesInRange(log, range, daySettings), [log, range, daySettings]);
+    const flaggedDays = useMemo(() => flagDays(voids, daySettings, thresholds), [voids, daySettings, thresholds]);
+    const thresholdAlert = useMemo(() => recentThresholdAlert(voids, daySettings, thresholds), [voids, daySettings, thresholds]);
 
+    useEffect(() => {
         // PWA: "Add to home screen" prompt
         const beforeInstallPromptHandler = (e: Event) => {
             e.preventDefault();
@@ -232,9 +320,25 @@ const App: React.FC = () => {
         };
     }, []);
 
-    const showToast = (message: string) => {
-        setToastMessage(message);
-        setTimeout(() => setToastMessage(null), 2000);
+    const dismissToast = useCallback(() => {
+        window.clearTimeout(toastTimer.current);
+        setToast(null);
+    }, []);
+
+    const handleSaveSettings = async (nextDaySettings: DaySettings, nextThresholds: ClinicalThresholds, nextReminderSettings: ReminderSettings, nextDisplaySettings: DisplaySettings) => {
+        setDaySettings(nextDaySettings);
+        setThresholds(nextThresholds);
+        setAlertDismissed(false);
+        setShowSettings(false);
+        if ((nextReminderSettings.timedVoidingEnabled || nextReminderSettings.inactivityEnabled) && 'Notification' in window) {
+            const permission = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+            if (permission !== 'granted') {
+                showToast(t('toast.enableNotifications'));
+            }
+        }
+        await saveReminderSettings(nextReminderSettings);
+        // Last: a new language remounts the diary (see App).
+        onDisplaySettingsChange(nextDisplaySettings);
     };
 
     const handleInstall = async () => {
@@ -242,136 +346,591 @@ const App: React.FC = () => {
         installPromptEvent.prompt();
         const { outcome } = await installPromptEvent.userChoice;
         if (outcome === 'accepted') {
-            showToast('¡App instalada! Búscala en tu pantalla de inicio.');
+            showToast(t('toast.installed'));
         }
         setInstallPromptEvent(null);
     };
 
-    const handleLogUrination = useCallback(() => {
-        setLog(prevLog => [{ id: Date.now(), timestamp: Date.now() }, ...prevLog]);
-        showToast("¡Registro guardado!");
-    }, [setLog]);
+    const undoAdd = useCallback((id: string) => {
+        setLog(prevLog => prevLog.filter(entry => entry.id !== id));
+        setEditor(current => current?.entry.id === id ? null : current);
+        dismissToast();
+    }, [setLog, dismissToast]);
+
+    const addEntry = useCallback((entry: LogEntry, message: string) => {
+        setLog(prevLog => sortByNewest([entry, ...prevLog]));
+        showToast(message, { label: t('common.undo'), onClick: () => undoAdd(entry.id) });
+    }, [setLog, showToast, undoAdd]);
+
+    const handleLogUrination = useCallback((force = false) => {
+        const now = Date.now();
+        const latest = lastLogTimestamp ?? 0;
+        if (!force && latest <= now && now - latest < DOUBLE_TAP_WINDOW_MS) {
+            showToast(t('toast.doubleTap'), { label: t('toast.addAnyway'), onClick: () => handleLogUrination(true) });
+            return;
+        }
+        const entry: LogEntry = { id: createEntryId(), timestamp: now };
+        addEntry(entry, t('toast.saved'));
+        // On the large-button screen one tap is the whole entry; details can be added later from the list.
+        if (!displaySettings.largeButtons) {
+            setEditor({ entry, mode: 'quick' });
+        }
+    }, [lastLogTimestamp, addEntry, showToast, displaySettings.largeButtons]);
+
+    const handleLogIntake = useCallback(() => {
+        setEditor({ entry: { id: createEntryId(), timestamp: Date.now(), kind: 'intake' }, mode: 'manual' });
+    }, []);
+
+    const handleLogGlucose = useCallback(() => {
+        setEditor({ entry: { id: createEntryId(), timestamp: Date.now(), kind: 'glucose' }, mode: 'manual' });
+    }, []);
+
+    const handleLogDose = useCallback((medication: Medication) => {
+        setShowMedications(false);
+        setEditor({
+            entry: { id: createEntryId(), timestamp: Date.now(), kind: 'dose', medicationId: medication.id, medicationName: medication.name, dose: medication.dose },
+            mode: 'manual',
+        });
+    }, []);
+
+    const handleAddPastEntry = useCallback(() => {
+        setEditor({ entry: { id: createEntryId(), timestamp: Date.now() }, mode: 'manual' });
+    }, []);
+
+    const handleEditEntry = useCallback((entry: LogEntry) => {
+        setEditor({ entry, mode: 'edit' });
+    }, []);
+
+    const handleSaveEntry = useCallback((updated: LogEntry) => {
+        if (editor?.mode === 'manual') {
+            addEntry(updated, t(isIntake(updated) ? 'toast.intakeSaved' : isGlucose(updated) ? 'toast.glucoseSaved' : isDose(updated) ? 'toast.doseSaved' : 'toast.entryAdded'));
+        } else {
+            setLog(prevLog => sortByNewest(prevLog.map(entry => entry.id === updated.id ? updated : entry)));
+            showToast(t(editor?.mode === 'quick' ? 'toast.detailsSaved' : 'toast.entryUpdated'));
+        }
+        setEditor(null);
+    }, [editor, addEntry, setLog, showToast]);
+
+    const handleDeleteEntry = useCallback((deleted: LogEntry) => {
+        setLog(prevLog => prevLog.filter(entry => entry.id !== deleted.id));
+        setEditor(null);
+        showToast(t('toast.entryDeleted'), {
+            label: t('common.undo'),
+            onClick: () => {
+                setLog(prevLog => sortByNewest([deleted, ...prevLog.filter(entry => entry.id !== deleted.id)]));
+                dismissToast();
+            },
+        });
+    }, [setLog, showToast, dismissToast]);
 
     const handleCopyToClipboard = useCallback(() => {
-        if (log.length === 0) {
-            showToast("No hay nada que copiar.");
+        if (rangeLog.length === 0) {
+            showToast(t('toast.nothingToCopy'));
             return;
         }
-        const textToCopy = log.map(entry => `${formatTimestamp(entry.timestamp, { dateStyle: 'full' })} - ${formatTimestamp(entry.timestamp, { timeStyle: 'medium' })}`).join('\n');
-        navigator.clipboard.writeText(textToCopy).then(() => showToast("¡Copiado al portapapeles!")).catch(() => showToast("Error al copiar."));
-    }, [log]);
+        const textToCopy = sortByNewest(rangeLog).map(entry => {
+            const line = `${formatTimestamp(entry.timestamp, { dateStyle: 'full' })} - ${formatTimestamp(entry.timestamp, { timeStyle: 'medium' })}`;
+            const details = describeEntryDetails(entry, volumeUnit, glucoseUnit);
+            return details.length > 0 ? `${line} (${details.join(', ')})` : line;
+        }).join('\n');
+        navigator.clipboard.writeText(textToCopy).then(() => showToast(t('toast.copied'))).catch(() => showToast(t('toast.copyFailed')));
+    }, [rangeLog, volumeUnit, glucoseUnit, showToast]);
 
     const handleClearLog = useCallback(() => {
-        if (window.confirm("¿Estás seguro de que quieres borrar todos los registros? Esta acción no se puede deshacer.")) {
+        if (window.confirm(t('confirm.clearLog', { name: profile.name }))) {
             setLog([]);
-            showToast("Registro borrado.");
+            showToast(t('toast.logCleared'));
         }
-    }, [setLog]);
-
-    const handleBarClick = useCallback((dateString: string) => {
-        const dayEntries = log.filter(entry => {
-            const entryDate = new Date(entry.timestamp);
-            entryDate.setHours(0,0,0,0);
-            return entryDate.toISOString().split('T')[0] === dateString;
+    }, [profile, setLog, showToast]);
+
+    const handleDeleteProfile = useCallback((deleted: Profile) => {
+        deleteProfile(deleted)
+            .then(() => showToast(t('toast.profileDeleted', { name: deleted.name })))
+            .catch(error => {
+                console.error(error);
+                showToast(t('toast.profileDeleteFailed'));
+            });
+    }, [deleteProfile, showToast]);
+
+    const handleImportEntries = useCallback((imported: LogEntry[]) => {
+        const importedIds = new Set(imported.map(entry => entry.id));
+        setLog(prevLog => sortByNewest([...imported, ...prevLog.filter(entry => !importedIds.has(entry.id))]));
+        setShowTransfer(false);
+        showToast(t('toast.imported', { count: imported.length }), {
+            label: t('common.undo'),
+            onClick: () => {
+                setLog(prevLog => prevLog.filter(entry => !importedIds.has(entry.id)));
+                dismissToast();
+            },
         });
-        setSelectedDayData(dayEntries);
-    }, [log]);
+    }, [setLog, showToast, dismissToast]);
+
+    const showToday = useCallback(() => {
+        const today = todayKey(daySettings);
+        setView('list');
+        setPeriodSelection({ period: 'custom', offset: 0, fromKey: today, toKey: today });
+    }, [daySettings]);
+
+    // Home-screen shortcuts open the app with ?action=…. Handled once the log has loaded, so the
+    // double-tap guard sees the latest void, and only once per launch.
+    const urlActionHandled = useRef(false);
+    useEffect(() => {
+        if (!logReady || urlActionHandled.current) return;
+        urlActionHandled.current = true;
+        const url = new URL(window.location.href);
+        const action = url.searchParams.get(URL_ACTION_PARAM);
+        if (!action) return;
+        // Dropped from the address bar so reloading doesn't log a second void.
+        url.searchParams.delete(URL_ACTION_PARAM);
+        window.history.replaceState(window.history.state, '', url.href);
+        if (action === 'log') {
+            handleLogUrination();
+        } else if (action === 'intake') {
+            handleLogIntake();
+        } else if (action === 'today') {
+            showToday();
+        }
+    }, [logReady, handleLogUrination, handleLogIntake, showToday]);
+
+    const overlayOpen = Boolean(editor || selection || showSettings || showTransfer || showReport || showProfiles || showLockSettings || showMedications);
+
+    useEffect(() => {
+        if (overlayOpen) return;
+        const keydownHandler = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+            if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            const pageBy = (delta: number) => setPeriodSelection(current =>
+                current.period === 'week' || current.period === 'month' ? { ...current, offset: Math.min(0, current.offset + delta) } : current);
+            const actions: Record<string, () => void> = {
+                [KEYBOARD_SHORTCUTS.void]: () => handleLogUrination(),
+                [KEYBOARD_SHORTCUTS.intake]: handleLogIntake,
+                [KEYBOARD_SHORTCUTS.glucose]: handleLogGlucose,
+                [KEYBOARD_SHORTCUTS.pastEntry]: handleAddPastEntry,
+                [KEYBOARD_SHORTCUTS.today]: showToday,
+                [KEYBOARD_SHORTCUTS.list]: () => setView('list'),
+                [KEYBOARD_SHORTCUTS.chart]: () => setView('chart'),
+                [KEYBOARD_SHORTCUTS.stats]: () => setView('stats'),
+                ArrowLeft: () => pageBy(-1),
+                ArrowRight: () => pageBy(1),
+            };
+            const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+            if (action) {
+                e.preventDefault();
+                action();
+            }
+        };
+        window.addEventListener('keydown', keydownHandler);
+        return () => window.removeEventListener('keydown', keydownHandler);
+    }, [overlayOpen, handleLogUrination, handleLogIntake, handleLogGlucose, handleAddPastEntry, showToday]);
+
+    // Derived from the log rather than snapshotted, so edits made from the modal show up immediately.
+    const selectedDetails = useMemo(() => {
+        if (!selection) return null;
+        if (selection.kind === 'day') {
+            return {
+                title: formatDayKey(selection.dayKey, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' }),
+                entries: log.filter(entry => dayKeyOf(entry.timestamp, daySettings) === selection.dayKey),
+            };
+        }
+        const { weekday, hour } = selection.slot;
+        return {
+            title: describeTimeSlot(selection.slot),
+            entries: entriesInRange(voids, range, daySettings).filter(entry =>
+                new Date(entry.timestamp).getHours() === hour && (weekday === null || weekdayIndex(entry.timestamp) === weekday)),
+        };
+    }, [log, voids, selection, daySettings, range]);
+
+    if (showReport) {
+        return (
+            <ClinicianReport
+                entries={log}
+                volumeUnit={volumeUnit}
+                daySettings={daySettings}
+                thresholds={thresholds}
+                patientName={patientName}
+                onPatientNameChange={setPatientName}
+                onClose={() => setShowReport(false)}
+            />
+        );
+    }
     
     return (
         <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-sans relative">
-            <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm sticky top-0 z-20 shadow-sm">
-                <div className="container mx-auto px-4 py-3 flex justify-between items-center">
-                    <h1 className="text-xl font-bold text-blue-800 dark:text-blue-300">Registro de Micción</h1>
-                    <div className="flex items-center space-x-2">
-                        {log.length > 0 && (
-                            <>
-                                <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-0.5">
-                                    <button
-                                        onClick={() => setView('list')}
-                                        className={`p-1.5 rounded-full transition-colors ${view === 'list' ? 'bg-blue-500 text-white' : 'text-gray-600 dark:text-gray-300'}`}
-                                        aria-label="Vista de lista"
+            {displaySettings.largeButtons ? (
+                <LargeButtonScreen
+                    profileName={profile.name}
+                    voids={voids}
+                    daySettings={daySettings}
+                    onLogVoid={() => handleLogUrination()}
+                    onLogIntake={handleLogIntake}
+                    onOpenSettings={() => setShowSettings(true)}
+                />
+            ) : (
+                <>
+                    <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm sticky top-0 z-20 shadow-sm">
+                        <div className="container mx-auto px-4 py-3 flex justify-between items-center">
+                            <div className="min-w-0">
+                                <h1 className="text-xl font-bold text-blue-800 dark:text-blue-300">{t('app.title')}</h1>
+                                {profiles.length > 1 && (
+                                    <select
+                                        value={profile.id}
+                                        onChange={e => switchProfile(e.target.value)}
+                                        className="max-w-[10rem] text-sm bg-transparent text-gray-600 dark:text-gray-300 font-semibold truncate"
+                                        aria-label={t('header.profile')}
                                     >
-                                        <ListBulletIcon className="w-5 h-5" />
-                                    </button>
+                                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                {log.length > 0 && (
+                                    <>
+                                        <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-0.5">
+                                            <button
+                                                onClick={() => setView('list')}
+                                                className={`p-1.5 rounded-full transition-colors ${view === 'list' ? 'bg-blue-500 text-white' : 'text-gray-600 dark:text-gray-300'}`}
+                                                aria-label={t('header.listView')}
+                                                aria-keyshortcuts={KEYBOARD_SHORTCUTS.list}
+                                                title={withShortcut(t('header.listView'), KEYBOARD_SHORTCUTS.list)}
+                                            >
+                                                <ListBulletIcon className="w-5 h-5" />
+                                            </button>
+                                            <button
+                                                onClick={() => setView('chart')}
+                                                className={`p-1.5 rounded-full transition-colors ${view === 'chart' ? 'bg-blue-500 text-white' : 'text-gray-600 dark:text-gray-300'}`}
+                                                aria-label={t('header.chartView')}
+                                                aria-keyshortcuts={KEYBOARD_SHORTCUTS.chart}
+                                                title={withShortcut(t('header.chartView'), KEYBOARD_SHORTCUTS.chart)}
+                                            >
+                                                <ChartBarIcon className="w-5 h-5" />
+                                            </button>
+                                            <button
+                                                onClick={() => setView('stats')}
+                                                className={`p-1.5 rounded-full transition-colors ${view === 'stats' ? 'bg-blue-500 text-white' : 'text-gray-600 dark:text-gray-300'}`}
+                                                aria-label={t('header.statsView')}
+                                                aria-keyshortcuts={KEYBOARD_SHORTCUTS.stats}
+                                                title={withShortcut(t('header.statsView'), KEYBOARD_SHORTCUTS.stats)}
+                                            >
+                                                <ChartPieIcon className="w-5 h-5" />
+                                            </button>
+                                        </div>
+                                        <button
+                                            onClick={() => setShowReport(true)}
+                                            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                            aria-label={t('header.report')}
+                                        >
+                                            <PrinterIcon />
+                                        </button>
+                                        <button
+                                            onClick={handleCopyToClipboard}
+                                            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                            aria-label={t('header.copy')}
+                                        >
+                                            <CopyIcon />
+                                        </button>
+                                        <button
+                                            onClick={handleClearLog}
+                                            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                            aria-label={t('header.clear')}
+                                        >
+                                            <TrashIcon />
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => setShowTransfer(true)}
+                                    className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                    aria-label={t('header.transfer')}
+                                >
+                                    <ArrowsUpDownIcon />
+                                </button>
+                                <button
+                                    onClick={() => setShowMedications(true)}
+                                    className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                    aria-label={t('header.medications')}
+                                >
+                                    <PillIcon />
+                                </button>
+                                {appLock.enabled && (
                                     <button
-                                        onClick={() => setView('chart')}
-                                        className={`p-1.5 rounded-full transition-colors ${view === 'chart' ? 'bg-blue-500 text-white' : 'text-gray-600 dark:text-gray-300'}`}
-                                        aria-label="Vista de gráfico"
+                                        onClick={appLock.lock}
+                                        className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                        aria-label={t('header.lock')}
                                     >
-                                        <ChartBarIcon className="w-5 h-5" />
+                                        <LockClosedIcon />
                                     </button>
-                                </div>
+                                )}
                                 <button
-                                    onClick={handleCopyToClipboard}
+                                    onClick={() => setShowProfiles(true)}
                                     className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-                                    aria-label="Copiar registros"
+                                    aria-label={t('header.profiles')}
                                 >
-                                    <CopyIcon />
+                                    <UsersIcon />
                                 </button>
                                 <button
-                                    onClick={handleClearLog}
+                                    onClick={() => setShowSettings(true)}
                                     className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-                                    aria-label="Borrar registros"
+                                    aria-label={t('header.settings')}
                                 >
-                                    <TrashIcon />
+                                    <CogIcon />
                                 </button>
-                            </>
+                                {installPromptEvent && (
+                                    <button
+                                        onClick={handleInstall}
+                                        className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                        aria-label={t('header.install')}
+                                    >
+                                        <InstallIcon />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </header>
+
+                    <main className="container mx-auto px-4 py-4">
+                        {thresholdAlert && !alertDismissed && (
+                            <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 flex items-start space-x-3" role="alert">
+                                <ExclamationTriangleIcon className="w-6 h-6 shrink-0" />
+                                <div className="flex-1 min-w-0 text-sm">
+                                    <p className="font-semibold">{t('thresholds.alertTitle', { count: thresholdAlert.dayCount })}</p>
+                                    <p>{thresholdAlert.exceedances.map(flag => describeExceedance(flag, volumeUnit)).join(' · ')}</p>
+                                    <p className="mt-1">{t('thresholds.alertAdvice')}</p>
+                                </div>
+                                <button onClick={() => setAlertDismissed(true)} className="p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-800/50" aria-label={t('thresholds.dismiss')}>
+                                    <XMarkIcon className="w-5 h-5" />
+                                </button>
+                            </div>
                         )}
-                        {installPromptEvent && (
-                            <button
-                                onClick={handleInstall}
-                                className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-                                aria-label="Instalar aplicación"
-                            >
-                                <InstallIcon />
-                            </button>
+                        {logReady && log.length > 0 && (
+                            <div className="mb-4">
+                                <PeriodPicker selection={periodSelection} range={range} daySettings={daySettings} onChange={setPeriodSelection} />
+                            </div>
                         )}
-                    </div>
-                </div>
-            </header>
-
-            <main className="container mx-auto px-4 py-4">
-                {view === 'list' ? (
-                    <LogList entries={log} />
-                ) : (
-                    <div className="space-y-4">
-                        <div className="flex justify-center items-center bg-gray-200 dark:bg-gray-700 rounded-full p-1 max-w-xs mx-auto">
-                            {(['week', 'month', 'all'] as ChartPeriod[]).map(p => (
-                                <button
-                                    key={p}
-                                    onClick={() => setChartPeriod(p)}
-                                    className={`flex-1 px-3 py-1 text-sm font-semibold rounded-full transition-colors ${chartPeriod === p ? 'bg-blue-500 text-white shadow' : 'text-gray-700 dark:text-gray-200'}`}
-                                >
-                                    {p === 'week' && 'Semana'}
-                                    {p === 'month' && 'Mes'}
-                                    {p === 'all' && 'Todos'}
-                                </button>
-                            ))}
-                        </div>
-                        <LogChart entries={log} period={chartPeriod} onBarClick={handleBarClick} />
-                    </div>
-                )}
-            </main>
-
-            <button
-                onClick={handleLogUrination}
-                className="fixed bottom-6 right-6 bg-blue-600 hover:bg-blue-700 text-white font-bold p-4 rounded-full shadow-lg z-30 transform transition-transform active:scale-95"
-                aria-label="Añadir registro de micción"
-            >
-                <PlusIcon className="w-8 h-8" />
-            </button>
-
-            {toastMessage && (
-                <div className="fixed bottom-24 right-6 bg-gray-800 text-white px-4 py-2 rounded-md shadow-lg z-40 animate-fade-in-out">
-                    {toastMessage}
+                        {!logReady ? null : view === 'list' ? (
+                            <LogList entries={rangeLog} volumeUnit={volumeUnit} glucoseUnit={glucoseUnit} daySettings={daySettings} flaggedDays={flaggedDays} filtered={log.length > 0} onEntryClick={handleEditEntry} />
+                        ) : (
+                            <div className="space-y-4">
+                                {view === 'chart' && (
+                                    <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm">
+                                        {(Object.keys(CHART_MODE_LABEL_KEYS) as ChartMode[]).map(mode => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setChartMode(mode)}
+                                                className={`pb-1 font-semibold border-b-2 transition-colors ${chartMode === mode ? 'border-blue-500 text-blue-700 dark:text-blue-300' : 'border-transparent text-gray-500 dark:text-gray-400'}`}
+                                            >
+                                                {t(CHART_MODE_LABEL_KEYS[mode])}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {view === 'chart' && chartMode === 'calendar' ? (
+                                    <div className="pb-28">
+                                        <CalendarView entries={log} range={range} daySettings={daySettings} flaggedDays={flaggedDays} onDayClick={dayKey => setSelection({ kind: 'day', dayKey })} />
+                                    </div>
+                                ) : view === 'chart' && chartMode === 'glucose' ? (
+                                    <GlucoseCorrelation entries={log} range={range} daySettings={daySettings} glucoseUnit={glucoseUnit} onDayClick={dayKey => setSelection({ kind: 'day', dayKey })} />
+                                ) : view === 'chart' && chartMode !== 'hourly' ? (
+                                    <LogChart
+                                        entries={log}
+                                        range={range}
+                                        daySettings={daySettings}
+                                        frequencyVolume={chartMode === 'fluid'}
+                                        volumeUnit={volumeUnit}
+                                        glucoseUnit={glucoseUnit}
+                                        flaggedDays={flaggedDays}
+                                        onBarClick={dayKey => setSelection({ kind: 'day', dayKey })}
+                                    />
+                                ) : view === 'chart' ? (
+                                    <TimeOfDayChart entries={voids} range={range} daySettings={daySettings} onSlotClick={slot => setSelection({ kind: 'slot', slot })} />
+                                ) : (
+                                    <div className="space-y-4 pb-28">
+                                        <StatsDashboard entries={voids} range={range} daySettings={daySettings} />
+                                        {medications.length > 0 && (
+                                            <MedicationComparison entries={log} medications={medications} daySettings={daySettings} />
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </main>
+
+                    <button
+                        onClick={handleAddPastEntry}
+                        className="fixed bottom-28 right-8 bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-300 p-3 rounded-full shadow-lg z-30 transform transition-transform active:scale-95"
+                        aria-label={t('fab.pastEntry')}
+                        aria-keyshortcuts={KEYBOARD_SHORTCUTS.pastEntry}
+                        title={withShortcut(t('fab.pastEntry'), KEYBOARD_SHORTCUTS.pastEntry)}
+                    >
+                        <ClockIcon className="w-6 h-6" />
+                    </button>
+
+                    <button
+                        onClick={handleLogIntake}
+                        className="fixed bottom-8 right-28 bg-white dark:bg-gray-800 text-cyan-600 dark:text-cyan-300 p-3 rounded-full shadow-lg z-30 transform transition-transform active:scale-95"
+                        aria-label={t('fab.intake')}
+                        aria-keyshortcuts={KEYBOARD_SHORTCUTS.intake}
+                        title={withShortcut(t('fab.intake'), KEYBOARD_SHORTCUTS.intake)}
+                    >
+                        <GlassIcon className="w-6 h-6" />
+                    </button>
+
+                    <button
+                        onClick={handleLogGlucose}
+                        className="fixed bottom-8 right-44 bg-white dark:bg-gray-800 text-rose-600 dark:text-rose-300 p-3 rounded-full shadow-lg z-30 transform transition-transform active:scale-95"
+                        aria-label={t('fab.glucose')}
+                        aria-keyshortcuts={KEYBOARD_SHORTCUTS.glucose}
+                        title={withShortcut(t('fab.glucose'), KEYBOARD_SHORTCUTS.glucose)}
+                    >
+                        <DropIcon className="w-6 h-6" />
+                    </button>
+
+                    <button
+                        onClick={() => handleLogUrination()}
+                        className="fixed bottom-6 right-6 bg-blue-600 hover:bg-blue-700 text-white font-bold p-4 rounded-full shadow-lg z-30 transform transition-transform active:scale-95"
+                        aria-label={t('fab.void')}
+                        aria-keyshortcuts={KEYBOARD_SHORTCUTS.void}
+                        title={withShortcut(t('fab.void'), KEYBOARD_SHORTCUTS.void)}
+                    >
+                        <PlusIcon className="w-8 h-8" />
+                    </button>
+                </>
+            )}
+
+            {toast && (
+                <div
+                    key={toast.id}
+                    className={`fixed bottom-8 left-4 bg-gray-800 text-white px-4 py-2 rounded-md shadow-lg z-[60] flex items-center space-x-4 ${toast.action ? 'animate-fade-in-out-long' : 'animate-fade-in-out'}`}
+                    role="status"
+                >
+                    <span>{toast.message}</span>
+                    {toast.action && (
+                        <button onClick={toast.action.onClick} className="font-semibold text-blue-300 hover:text-blue-200 uppercase text-sm">
+                            {toast.action.label}
+                        </button>
+                    )}
                 </div>
             )}
 
-            {selectedDayData && (
-                <DetailsModal dayData={selectedDayData} onClose={() => setSelectedDayData(null)} />
+            {selectedDetails && (
+                <DetailsModal title={selectedDetails.title} showDates={selection?.kind === 'slot'} dayData={selectedDetails.entries} volumeUnit={volumeUnit} glucoseUnit={glucoseUnit} onEntryClick={handleEditEntry} onClose={() => setSelection(null)} />
+            )}
+
+            {showTransfer && (
+                <DataTransferModal entries={log} initialRange={range} daySettings={daySettings} profileName={profile.name} patientName={patientName} onImport={handleImportEntries} onClose={() => setShowTransfer(false)} />
+            )}
+
+            {showMedications && (
+                <MedicationsModal
+                    medications={medications}
+                    onChange={setMedications}
+                    onLogDose={handleLogDose}
+                    onClose={() => setShowMedications(false)}
+                />
+            )}
+
+            {showProfiles && (
+                <ProfilesModal
+                    profiles={profiles}
+                    activeProfileId={profile.id}
+                    onSwitch={profileId => { setShowProfiles(false); switchProfile(profileId); }}
+                    onAdd={addProfile}
+                    onRename={renameProfile}
+                    onDelete={handleDeleteProfile}
+                    onClose={() => setShowProfiles(false)}
+                />
+            )}
+
+            {showSettings && (
+                <SettingsModal
+                    daySettings={daySettings}
+                    thresholds={thresholds}
+                    volumeUnit={volumeUnit}
+                    reminderSettings={reminderSettings}
+                    displaySettings={displaySettings}
+                    onSave={handleSaveSettings}
+                    lockEnabled={appLock.enabled}
+                    onOpenLock={() => { setShowSettings(false); setShowLockSettings(true); }}
+                    onClose={() => setShowSettings(false)}
+                />
+            )}
+
+            {showLockSettings && (
+                <LockSettingsModal
+                    enabled={appLock.enabled}
+                    autoLockMinutes={appLock.autoLockMinutes}
+                    onEnable={async (passphrase, minutes) => {
+                        await appLock.enable(passphrase, minutes);
+                        showToast(t('toast.lockEnabled'));
+                    }}
+                    onDisable={async passphrase => {
+                        const disabled = await appLock.disable(passphrase);
+                        if (disabled) showToast(t('toast.lockDisabled'));
+                        return disabled;
+                    }}
+                    onAutoLockMinutesChange={minutes => appLock.setAutoLockMinutes(minutes).catch(() => showToast(t('toast.settingFailed')))}
+                    onClose={() => setShowLockSettings(false)}
+                />
+            )}
+
+            {editor && (
+                <EntryDetailSheet
+                    key={editor.entry.id}
+                    entry={editor.entry}
+                    mode={editor.mode}
+                    volumeUnit={volumeUnit}
+                    onVolumeUnitChange={setVolumeUnit}
+                    glucoseUnit={glucoseUnit}
+                    onGlucoseUnitChange={setGlucoseUnit}
+                    onSave={handleSaveEntry}
+                    onDelete={editor.mode === 'manual' ? undefined : handleDeleteEntry}
+                    onClose={() => setEditor(null)}
+                />
             )}
         </div>
     );
 };
 
-export default App;
\ No newline at end of file
+interface UnlockedAppProps {
+    appLock: AppLockState;
+    displaySettings: DisplaySettings;
+    onDisplaySettingsChange: (settings: DisplaySettings) => void;
+}
+
+// The profile list is sealed while locked, so it is only read once the app is unlocked.
+const UnlockedApp: React.FC<UnlockedAppProps> = ({ appLock, displaySettings, onDisplaySettingsChange }) => {
+    const profiles = useProfiles();
+    // Keyed by profile so switching starts from a clean slate: the other log, settings and reminders.
+    // The language is part of the key too, so nothing memoized keeps text in the previous one.
+    return (
+        <ProfileDiary
+            key={`${profiles.activeProfile.id}:${displaySettings.locale}:${displaySettings.timeFormat}`}
+            profiles={profiles}
+            appLock={appLock}
+            displaySettings={displaySettings}
+            onDisplaySettingsChange={onDisplaySettingsChange}
+        />
+    );
+};
+
+const App: React.FC = () => {
+    // First, so the default profile created on first run is named in the chosen language.
+    const [displaySettings, setDisplaySettings] = useLocale();
+    const appLock = useAppLock();
+    // PWA: Service Worker registration and update prompt, above the lock so updates install while locked too.
+    const [updateAvailable, applyUpdate] = useServiceWorker();
+
+    if (!appLock.ready) return null;
+    return (
+        <>
+            {appLock.locked ? (
+                // Locking unmounts the diary, so no decrypted entries stay in memory.
+                <LockScreen onUnlock={appLock.unlock} onReset={appLock.resetAllData} />
+            ) : (
+                <UnlockedApp appLock={appLock} displaySettings={displaySettings} onDisplaySettingsChange={setDisplaySettings} />
+            )}
+            {updateAvailable && <UpdateBanner onApply={applyUpdate} />}
+        </>
+    );
+};
+
+export default App;
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { DaySettings, LogEntry } from '../types';
+import { t } from '../i18n';
+import { addDays, addMonths, dayKeyOf, DayKeyRange, dayKeyToDate, isInRange, monthStartKey, todayKey } from '../utils/dates';
+import { formatDayKey, weekdayName } from '../utils/format';
+import { isVoid } from '../utils/schema';
+import { ThresholdExceedance } from '../utils/thresholds';
+
+interface CalendarViewProps {
+    // Every entry of the log: cells count the voids, but any day with entries can be opened.
+    entries: LogEntry[];
+    range: DayKeyRange;
+    daySettings: DaySettings;
+    flaggedDays?: Map<string, ThresholdExceedance[]>;
+    onDayClick: (dayKey: string) => void;
+}
+
+const WEEKDAYS = Array.from({ length: 7 }, (_, weekday) => weekday);
+
+const CalendarView: React.FC<CalendarViewProps> = ({ entries, range, daySettings, flaggedDays, onDayClick }) => {
+    const today = todayKey(daySettings);
+
+    const { voidsByDay, loggedDays, firstKey } = useMemo(() => {
+        const voidsByDay = new Map<string, number>();
+        const loggedDays = new Set<string>();
+        let firstKey = today;
+        for (const entry of entries) {
+            const dayKey = dayKeyOf(entry.timestamp, daySettings);
+            loggedDays.add(dayKey);
+            if (dayKey < firstKey) firstKey = dayKey;
+            if (isVoid(entry)) {
+                voidsByDay.set(dayKey, (voidsByDay.get(dayKey) ?? 0) + 1);
+            }
+        }
+        return { voidsByDay, loggedDays, firstKey };
+    }, [entries, daySettings, today]);
+
+    // Every month the range touches, newest first. An open range runs from the first entry to today.
+    const months = useMemo(() => {
+        const lastMonth = monthStartKey(range.toKey ?? today);
+        const firstMonth = monthStartKey(range.fromKey ?? firstKey);
+        const keys: string[] = [];
+        for (let key = lastMonth; key >= firstMonth; key = addMonths(key, -1)) {
+            keys.push(key);
+        }
+        return keys;
+    }, [range, today, firstKey]);
+
+    return (
+        <div className="space-y-4">
+            {months.map(monthKey => {
+                const monthName = formatDayKey(monthKey, { month: 'long', year: 'numeric' });
+                // Monday-first grid: blank cells before the 1st, then every day of the month.
+                const leadingBlanks = (dayKeyToDate(monthKey).getDay() + 6) % 7;
+                const days: string[] = [];
+                for (let key = monthKey; key < addMonths(monthKey, 1); key = addDays(key, 1)) {
+                    days.push(key);
+                }
+                return (
+                    <section key={monthKey} className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md" aria-label={t('calendar.label', { month: monthName })}>
+                        <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2 capitalize">{monthName}</h3>
+                        <div className="grid grid-cols-7 gap-1 text-center">
+                            {WEEKDAYS.map(weekday => (
+                                <span key={weekday} className="text-xs text-gray-500 dark:text-gray-400 capitalize">{weekdayName(weekday, 'short')}</span>
+                            ))}
+                            {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+                            {days.map(dayKey => {
+                                const count = voidsByDay.get(dayKey) ?? 0;
+                                const inRange = isInRange(dayKey, range) && dayKey <= today;
+                                const flagged = flaggedDays?.has(dayKey);
+                                const colors = flagged
+                                    ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200'
+                                    : count > 0 ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200' : 'text-gray-500 dark:text-gray-400';
+                                return (
+                                    <button
+                                        key={dayKey}
+                                        onClick={() => onDayClick(dayKey)}
+                                        disabled={!inRange || !loggedDays.has(dayKey)}
+                                        className={`rounded-md py-1 flex flex-col items-center ${colors} ${inRange ? '' : 'opacity-30'} ${dayKey === today ? 'ring-2 ring-blue-500' : ''} enabled:hover:ring-2 enabled:hover:ring-blue-300`}
+                                        aria-label={t('calendar.day', { date: formatDayKey(dayKey, { dateStyle: 'full' }), count })}
+                                    >
+                                        <span className="text-xs">{Number(dayKey.slice(8))}</span>
+                                        <span className="text-lg font-bold leading-tight">{count > 0 ? count : '·'}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </section>
+                );
+            })}
+        </div>
+    );
+};
+
+export default CalendarView;
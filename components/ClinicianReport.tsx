@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { ClinicalThresholds, DaySettings, LogEntry, ThresholdKind, VolumeUnit } from '../types';
+import { formatNumber, t } from '../i18n';
+import { addDays, ALL_DAYS, dayKeyOf, dayNightKeyOf, dayRange, eachDayKey, isInRange, todayKey } from '../utils/dates';
+import { formatDayKey, formatDuration, formatMinutesOfDay, formatTimestamp, formatVolume } from '../utils/format';
+import { isIntake, isVoid } from '../utils/schema';
+import { emptyDaySummary, summarizeDiary } from '../utils/stats';
+import { dayExceedances, describeThresholds, flagDays } from '../utils/thresholds';
+import LogChart from './LogChart';
+import { PrinterIcon, XMarkIcon } from './Icons';
+
+// A standard bladder diary covers three consecutive days.
+const DEFAULT_REPORT_DAYS = 3;
+
+interface ClinicianReportProps {
+    entries: LogEntry[];
+    volumeUnit: VolumeUnit;
+    daySettings: DaySettings;
+    thresholds: ClinicalThresholds;
+    patientName: string;
+    onPatientNameChange: (name: string) => void;
+    onClose: () => void;
+}
+
+const ClinicianReport: React.FC<ClinicianReportProps> = ({ entries, volumeUnit, daySettings, thresholds, patientName, onPatientNameChange, onClose }) => {
+    const [from, setFrom] = useState<string>(() => addDays(todayKey(daySettings), -(DEFAULT_REPORT_DAYS - 1)));
+    const [to, setTo] = useState<string>(() => todayKey(daySettings));
+
+    const { rangeEntries, rowEntries, summary, days, intakeByDay, totalIntakeMl } = useMemo(() => {
+        const { start } = dayRange(from, daySettings);
+        const { end } = dayRange(to, daySettings);
+        const inRange = entries.filter(entry => entry.timestamp >= start && entry.timestamp < end);
+        const rangeEntries = inRange.filter(isVoid);
+        const summary = summarizeDiary(rangeEntries, daySettings);
+        // The rows also need the rest of the last day's night, which runs past the range; the night
+        // that ended on the first day belongs to the day before and stays out of the split.
+        const range = { fromKey: from, toKey: to };
+        const rowEntries = entries.filter(entry => isVoid(entry)
+            && (isInRange(dayKeyOf(entry.timestamp, daySettings), range) || isInRange(dayNightKeyOf(entry.timestamp, daySettings), range)));
+
+        const intakeByDay = new Map<string, number>();
+        let totalIntakeMl = 0;
+        inRange.filter(isIntake).forEach(entry => {
+            const key = dayKeyOf(entry.timestamp, daySettings);
+            intakeByDay.set(key, (intakeByDay.get(key) ?? 0) + (entry.volumeMl ?? 0));
+            totalIntakeMl += entry.volumeMl ?? 0;
+        });
+
+        // Include days without any voids so gaps in the diary are visible to the clinician.
+        const byKey = new Map(summarizeDiary(rowEntries, daySettings).days.map(day => [day.dayKey, day]));
+        const days = eachDayKey(from, to).map(key => byKey.get(key) ?? emptyDaySummary(key));
+        return { rangeEntries, rowEntries, summary, days, intakeByDay, totalIntakeMl };
+    }, [entries, from, to, daySettings]);
+    const flaggedDays = useMemo(() => flagDays(rowEntries, daySettings, thresholds), [rowEntries, daySettings, thresholds]);
+    // The day/night totals add up the rows, so both split the edges of the range the same way.
+    const dayTotal = days.reduce((total, day) => total + day.dayCount, 0);
+    const nightTotal = days.reduce((total, day) => total + day.nightCount, 0);
+    const thresholdList = describeThresholds(thresholds, volumeUnit);
+
+    const dayCountInRange = days.length || 1;
+    // The intake column is only shown when the patient has logged drinks in the range.
+    const hasIntake = intakeByDay.size > 0;
+
+    return (
+        <div className="min-h-screen bg-white text-gray-900 print:min-h-0">
+            <div className="sticky top-0 bg-gray-100 border-b shadow-sm print:hidden">
+                <div className="container mx-auto px-4 py-3 flex flex-wrap items-end gap-3">
+                    <label className="text-sm flex-1 min-w-[10rem]">
+                        {t('report.patient')}
+                        <input
+                            type="text"
+                            value={patientName}
+                            onChange={e => onPatientNameChange(e.target.value)}
+                            placeholder={t('report.patientPlaceholder')}
+                            className="mt-1 w-full px-3 py-2 rounded-md bg-white border border-gray-300"
+                        />
+                    </label>
+                    <label className="text-sm">
+                        {t('transfer.from')}
+                        <input type="date" value={from} max={to} onChange={e => e.target.value && setFrom(e.target.value)} className="mt-1 block px-3 py-2 rounded-md bg-white border border-gray-300" />
+                    </label>
+                    <label className="text-sm">
+                        {t('transfer.to')}
+                        <input type="date" value={to} min={from} onChange={e => e.target.value && setTo(e.target.value)} className="mt-1 block px-3 py-2 rounded-md bg-white border border-gray-300" />
+                    </label>
+                    <button onClick={() => window.print()} className="flex items-center space-x-2 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                        <PrinterIcon />
+                        <span>{t('report.print')}</span>
+                    </button>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-200" aria-label={t('report.close')}>
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+            </div>
+
+            <article className="container mx-auto px-4 py-6 space-y-6 max-w-4xl print:max-w-none print:p-0">
+                <header className="border-b-2 border-gray-800 pb-3">
+                    <h1 className="text-2xl font-bold">{t('report.title')}</h1>
+                    <dl className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                        <div><dt className="inline font-semibold">{t('report.patient')}: </dt><dd className="inline">{patientName || '—'}</dd></div>
+                        <div>
+                            <dt className="inline font-semibold">{t('report.period')}: </dt>
+                            <dd className="inline">
+                                {formatDayKey(from, { dateStyle: 'long' })} – {formatDayKey(to, { dateStyle: 'long' })} ({t('report.dayCount', { count: days.length })})
+                            </dd>
+                        </div>
+                        <div><dt className="inline font-semibold">{t('report.nightWindow')}: </dt><dd className="inline">{formatMinutesOfDay(daySettings.sleepStartMinutes)} – {formatMinutesOfDay(daySettings.sleepEndMinutes)}</dd></div>
+                        <div><dt className="inline font-semibold">{t('report.generated')}: </dt><dd className="inline">{formatTimestamp(Date.now(), { dateStyle: 'long', timeStyle: 'short' })}</dd></div>
+                        {thresholdList.length > 0 && (
+                            <div className="col-span-2"><dt className="inline font-semibold">{t('report.thresholds')}: </dt><dd className="inline">{thresholdList.join(' · ')}</dd></div>
+                        )}
+                    </dl>
+                </header>
+
+                <section>
+                    <h2 className="text-lg font-semibold mb-2">{t('report.summary')}</h2>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                        <SummaryCell label={t('report.voids')} value={String(summary.totalVoids)} hint={t('report.perDay', { value: formatNumber(summary.totalVoids / dayCountInRange, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })} />
+                        <SummaryCell label={t('report.dayNight')} value={`${dayTotal} / ${nightTotal}`} hint={t('report.nocturiaPerNight', { value: formatNumber(nightTotal / dayCountInRange, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })} />
+                        <SummaryCell label={t('report.meanInterval')} value={summary.meanIntervalMs !== null ? formatDuration(summary.meanIntervalMs) : '—'} />
+                        <SummaryCell label={t('report.longestInterval')} value={summary.longestIntervalMs !== null ? formatDuration(summary.longestIntervalMs) : '—'} />
+                        <SummaryCell
+                            label={t('report.totalVolume')}
+                            value={summary.measuredCount > 0 ? formatVolume(summary.totalVolumeMl, volumeUnit) : '—'}
+                            hint={summary.measuredCount > 0 ? t('report.measuredOf', { measured: summary.measuredCount, total: summary.totalVoids }) : undefined}
+                        />
+                        <SummaryCell label={t('report.meanVolume')} value={summary.meanVolumeMl !== null ? formatVolume(summary.meanVolumeMl, volumeUnit) : '—'} />
+                        <SummaryCell label={t('report.leaks')} value={String(summary.leakageCount)} />
+                        {hasIntake && (
+                            <SummaryCell
+                                label={t('report.intake')}
+                                value={formatVolume(totalIntakeMl, volumeUnit)}
+                                hint={t('report.perDay', { value: formatVolume(totalIntakeMl / dayCountInRange, volumeUnit) })}
+                            />
+                        )}
+                    </div>
+                </section>
+
+                <section className="break-inside-avoid">
+                    <h2 className="text-lg font-semibold mb-2">{t('report.voidsPerDay')}</h2>
+                    <LogChart entries={rangeEntries} range={ALL_DAYS} daySettings={daySettings} volumeUnit={volumeUnit} flaggedDays={flaggedDays} />
+                </section>
+
+                <section>
+                    <h2 className="text-lg font-semibold mb-2">{t('report.dailyDetail')}</h2>
+                    <table className="w-full text-sm border-collapse">
+                        <thead>
+                            <tr className="border-b-2 border-gray-800 text-left">
+                                <th className="py-1 pr-2">{t('report.date')}</th>
+                                <th className="py-1 px-2 text-right">{t('report.total')}</th>
+                                <th className="py-1 px-2 text-right">{t('report.day')}</th>
+                                <th className="py-1 px-2 text-right">{t('report.night')}</th>
+                                <th className="py-1 px-2 text-right">{t('sheet.volume')}</th>
+                                <th className="py-1 px-2 text-right">{t('report.leaks')}</th>
+                                {hasIntake && <th className="py-1 px-2 text-right">{t('report.intakeColumn')}</th>}
+                                <th className="py-1 pl-2">{t('report.times')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {days.map(day => {
+                                const exceeded = new Set<ThresholdKind>(dayExceedances(day, thresholds).map(flag => flag.kind));
+                                // Values above their limit are printed in bold red.
+                                const flagged = (kind: ThresholdKind) => exceeded.has(kind) ? ' font-bold text-red-700' : '';
+                                return (
+                                    <tr key={day.dayKey} className={`border-b border-gray-300 align-top break-inside-avoid${exceeded.size > 0 ? ' bg-red-50' : ''}`}>
+                                        <td className="py-1 pr-2 whitespace-nowrap capitalize">{formatDayKey(day.dayKey, { weekday: 'short', day: 'numeric', month: 'short' })}{exceeded.size > 0 && <span className="text-red-700"> †</span>}</td>
+                                        <td className={`py-1 px-2 text-right font-semibold${flagged('voids')}`}>{day.entries.length}</td>
+                                        <td className="py-1 px-2 text-right">{day.dayCount}</td>
+                                        <td className={`py-1 px-2 text-right${flagged('night')}`}>{day.nightCount}</td>
+                                        <td className={`py-1 px-2 text-right whitespace-nowrap${flagged('output')}`}>{day.measuredCount > 0 ? formatVolume(day.totalVolumeMl, volumeUnit) : '—'}</td>
+                                        <td className="py-1 px-2 text-right">{day.leakageCount || ''}</td>
+                                        {hasIntake && (
+                                            <td className="py-1 px-2 text-right whitespace-nowrap">{intakeByDay.has(day.dayKey) ? formatVolume(intakeByDay.get(day.dayKey)!, volumeUnit) : '—'}</td>
+                                        )}
+                                        <td className="py-1 pl-2 text-xs">
+                                            {day.entries.map(entry => {
+                                                const time = formatTimestamp(entry.timestamp, { hour: '2-digit', minute: '2-digit' });
+                                                const volume = entry.volumeMl !== undefined ? ` (${formatVolume(entry.volumeMl, volumeUnit)})` : '';
+                                                return `${time}${volume}${entry.leakage ? '*' : ''}`;
+                                            }).join(', ')}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <p className="mt-2 text-xs text-gray-500">* {t('report.leakFootnote')}</p>
+                    {days.some(day => flaggedDays.has(day.dayKey)) && <p className="text-xs text-gray-500">† {t('report.flaggedFootnote')}</p>}
+                </section>
+            </article>
+        </div>
+    );
+};
+
+const SummaryCell: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+    <div className="border border-gray-300 rounded-md p-2">
+        <div className="text-xs text-gray-500">{label}</div>
+        <div className="text-lg font-bold">{value}</div>
+        {hint && <div className="text-xs text-gray-500">{hint}</div>}
+    </div>
+);
+
+export default ClinicianReport;
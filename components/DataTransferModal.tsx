@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { DaySettings, LogEntry } from '../types';
+import { t } from '../i18n';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from '../utils/crypto';
+import { DayKeyRange, dayRange, dayKeyOf, todayKey } from '../utils/dates';
+import { downloadFile, entriesToCsv, entriesToJson, ExportFormat, ImportPreview, previewImport, shareFile } from '../utils/exchange';
+import { entriesToFhir, FHIR_MIME_TYPE } from '../utils/fhir';
+import { profileFileSlug } from '../utils/profiles';
+import { XMarkIcon } from './Icons';
+
+interface DataTransferModalProps {
+    entries: LogEntry[];
+    // Dates selected in the diary; open ends default to the first entry and today.
+    initialRange: DayKeyRange;
+    daySettings: DaySettings;
+    // Goes into the export file name so files from different profiles can't be mixed up.
+    profileName: string;
+    // Name for the Patient resource of the FHIR export, as entered in the clinician report.
+    patientName: string;
+    onImport: (entries: LogEntry[]) => void;
+    onClose: () => void;
+}
+
+const DataTransferModal: React.FC<DataTransferModalProps> = ({ entries, initialRange, daySettings, profileName, patientName, onImport, onClose }) => {
+    const [from, setFrom] = useState<string>(() => {
+        if (initialRange.fromKey) return initialRange.fromKey;
+        const oldest = entries.reduce((min, entry) => Math.min(min, entry.timestamp), Date.now());
+        return dayKeyOf(oldest, daySettings);
+    });
+    const [to, setTo] = useState<string>(() => initialRange.toKey ?? todayKey(daySettings));
+    const [preview, setPreview] = useState<(ImportPreview & { fileName: string }) | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [backupPassphrase, setBackupPassphrase] = useState('');
+    const [backupConfirmation, setBackupConfirmation] = useState('');
+    // An encrypted backup waiting for its passphrase before it can be previewed.
+    const [encryptedFile, setEncryptedFile] = useState<{ text: string; fileName: string } | null>(null);
+    const [filePassphrase, setFilePassphrase] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [shareError, setShareError] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const rangeEntries = useMemo(() => {
+        if (!from || !to) return [];
+        const { start } = dayRange(from, daySettings);
+        const { end } = dayRange(to, daySettings);
+        return entries
+            .filter(entry => entry.timestamp >= start && entry.timestamp < end)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }, [entries, from, to, daySettings]);
+
+    const baseFileName = `registro-miccion_${profileFileSlug(profileName)}_${from}_${to}`;
+
+    const handleExport = (format: ExportFormat) => {
+        const fileName = `${baseFileName}.${format}`;
+        if (format === 'csv') {
+            downloadFile(fileName, entriesToCsv(rangeEntries), 'text/csv;charset=utf-8');
+        } else {
+            downloadFile(fileName, entriesToJson(rangeEntries), 'application/json');
+        }
+    };
+
+    const handleFhirExport = async (share: boolean) => {
+        const fileName = `${baseFileName}.fhir.json`;
+        const content = entriesToFhir(rangeEntries, patientName, daySettings);
+        setShareError(null);
+        if (!share) {
+            downloadFile(fileName, content, FHIR_MIME_TYPE);
+            return;
+        }
+        try {
+            if (!await shareFile(fileName, content, FHIR_MIME_TYPE)) {
+                setShareError(t('transfer.shareFailed'));
+            }
+        } catch (error) {
+            // Closing the share sheet rejects with AbortError; that is not a failure.
+            if (!(error instanceof DOMException && error.name === 'AbortError')) {
+                console.error(error);
+                setShareError(t('transfer.shareFailed'));
+            }
+        }
+    };
+
+    const handleEncryptedExport = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setExportError(null);
+        try {
+            const content = await encryptBackup(entriesToJson(rangeEntries), backupPassphrase);
+            downloadFile(`${baseFileName}.cifrado.json`, content, 'application/json');
+            setBackupPassphrase('');
+            setBackupConfirmation('');
+        } catch (error) {
+            console.error(error);
+            setExportError(error instanceof Error ? error.message : t('transfer.exportFailed'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setPreview(null);
+        setImportError(null);
+        setEncryptedFile(null);
+        try {
+            const text = await file.text();
+            if (isEncryptedBackup(text)) {
+                setEncryptedFile({ text, fileName: file.name });
+                return;
+            }
+            setPreview({ ...previewImport(text, file.name, entries), fileName: file.name });
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : t('import.readFailed'));
+        }
+    };
+
+    const handleDecrypt = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!encryptedFile) return;
+        setBusy(true);
+        setImportError(null);
+        try {
+            const text = await decryptBackup(encryptedFile.text, filePassphrase);
+            // The envelope always holds a JSON export.
+            setPreview({ ...previewImport(text, 'copia.json', entries), fileName: encryptedFile.fileName });
+            setEncryptedFile(null);
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : t('import.readFailed'));
+        } finally {
+            setFilePassphrase('');
+            setBusy(false);
+        }
+    };
+
+    const handleConfirmImport = () => {
+        if (!preview) return;
+        onImport(preview.newEntries);
+        setPreview(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-lg font-semibold">{t('transfer.title')}</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-6 max-h-[75vh] overflow-y-auto">
+                    <section className="space-y-3">
+                        <h4 className="font-semibold">{t('transfer.export')}</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-sm">
+                                {t('transfer.from')}
+                                <input
+                                    type="date"
+                                    value={from}
+                                    max={to}
+                                    onChange={e => setFrom(e.target.value)}
+                                    className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                />
+                            </label>
+                            <label className="text-sm">
+                                {t('transfer.to')}
+                                <input
+                                    type="date"
+                                    value={to}
+                                    min={from}
+                                    onChange={e => setTo(e.target.value)}
+                                    className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                />
+                            </label>
+                        </div>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {t('transfer.rangeCount', { count: rangeEntries.length })}
+                        </p>
+                        <div className="flex space-x-2">
+                            {(['csv', 'json'] as ExportFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleExport(format)}
+                                    disabled={rangeEntries.length === 0}
+                                    className="flex-1 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                                >
+                                    {t('transfer.download', { format: format.toUpperCase() })}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="space-y-2 pt-2">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('transfer.fhirIntro')}
+                            </p>
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => handleFhirExport(false)}
+                                    disabled={rangeEntries.length === 0}
+                                    className="flex-1 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                                >
+                                    {t('transfer.downloadFhir')}
+                                </button>
+                                {typeof navigator.canShare === 'function' && (
+                                    <button
+                                        onClick={() => handleFhirExport(true)}
+                                        disabled={rangeEntries.length === 0}
+                                        className="flex-1 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                                    >
+                                        {t('transfer.shareFhir')}
+                                    </button>
+                                )}
+                            </div>
+                            {shareError && <p className="text-sm text-red-600 dark:text-red-400">{shareError}</p>}
+                        </div>
+                        <form onSubmit={handleEncryptedExport} className="space-y-2 pt-2">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('transfer.encryptedIntro')}
+                            </p>
+                            <div className="grid grid-cols-2 gap-2">
+                                <label className="text-sm">
+                                    {t('transfer.passphrase')}
+                                    <input
+                                        type="password"
+                                        required
+                                        minLength={4}
+                                        autoComplete="new-password"
+                                        value={backupPassphrase}
+                                        onChange={e => setBackupPassphrase(e.target.value)}
+                                        className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </label>
+                                <label className="text-sm">
+                                    {t('transfer.repeatPassphrase')}
+                                    <input
+                                        type="password"
+                                        required
+                                        autoComplete="new-password"
+                                        value={backupConfirmation}
+                                        onChange={e => setBackupConfirmation(e.target.value)}
+                                        className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </label>
+                            </div>
+                            {backupConfirmation && backupConfirmation !== backupPassphrase && (
+                                <p className="text-sm text-amber-600 dark:text-amber-400">{t('transfer.passphraseMismatch')}</p>
+                            )}
+                            <button
+                                type="submit"
+                                disabled={rangeEntries.length === 0 || busy || backupPassphrase !== backupConfirmation}
+                                className="w-full px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50 text-white font-semibold"
+                            >
+                                {t('transfer.downloadEncrypted')}
+                            </button>
+                            {exportError && <p className="text-sm text-red-600 dark:text-red-400">{exportError}</p>}
+                        </form>
+                    </section>
+
+                    <section className="space-y-3 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{t('transfer.import')}</h4>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {t('transfer.importIntro')}
+                        </p>
+                        <input
+                            type="file"
+                            accept=".csv,.json,text/csv,application/json"
+                            onChange={handleFileChange}
+                            className="block w-full text-sm file:mr-3 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-gray-200 dark:file:bg-gray-700 file:font-semibold"
+                        />
+                        {encryptedFile && (
+                            <form onSubmit={handleDecrypt} className="bg-gray-100 dark:bg-gray-700/50 rounded-md p-3 space-y-2 text-sm">
+                                <p className="font-medium truncate">{encryptedFile.fileName}</p>
+                                <label className="block">
+                                    {t('transfer.backupPassphrase')}
+                                    <input
+                                        type="password"
+                                        required
+                                        autoFocus
+                                        value={filePassphrase}
+                                        onChange={e => setFilePassphrase(e.target.value)}
+                                        className="mt-1 w-full px-3 py-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </label>
+                                <button type="submit" disabled={busy} className="w-full px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold">
+                                    {t('transfer.decrypt')}
+                                </button>
+                            </form>
+                        )}
+                        {importError && <p className="text-sm text-red-600 dark:text-red-400">{importError}</p>}
+                        {preview && (
+                            <div className="bg-gray-100 dark:bg-gray-700/50 rounded-md p-3 space-y-2 text-sm">
+                                <p className="font-medium truncate">{preview.fileName}</p>
+                                <ul className="space-y-1">
+                                    <li>{t('transfer.new')} <strong>{preview.newEntries.length}</strong></li>
+                                    <li>{t('transfer.duplicates')} <strong>{preview.duplicateCount}</strong></li>
+                                    {preview.invalidCount > 0 && (
+                                        <li className="text-amber-600 dark:text-amber-400">{t('transfer.invalid')} <strong>{preview.invalidCount}</strong></li>
+                                    )}
+                                </ul>
+                                <button
+                                    onClick={handleConfirmImport}
+                                    disabled={preview.newEntries.length === 0}
+                                    className="w-full px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                                >
+                                    {preview.newEntries.length === 0 ? t('transfer.nothingToImport') : t('transfer.importCount', { count: preview.newEntries.length })}
+                                </button>
+                            </div>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DataTransferModal;
@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import { BeverageType, GlucoseTag, GlucoseUnit, LogEntry, UrgencyScore, VolumeUnit } from '../types';
+import { toDateTimeLocalValue } from '../utils/dates';
+import { MessageKey, t } from '../i18n';
+import { BEVERAGE_LABEL_KEYS, formatVolume, fromMgDl, fromMillilitres, GLUCOSE_TAG_LABEL_KEYS, toMgDl, toMillilitres, URGENCY_LABEL_KEYS } from '../utils/format';
+import { isDose, isGlucose, isIntake } from '../utils/schema';
+import { TrashIcon, XMarkIcon } from './Icons';
+
+// 'quick' follows a tap on the main button, 'edit' opens an existing row, 'manual' backdates a forgotten void.
+export type EntrySheetMode = 'quick' | 'edit' | 'manual';
+
+const SHEET_TITLES: Record<EntrySheetMode, MessageKey> = {
+    quick: 'sheet.addDetails',
+    edit: 'sheet.editEntry',
+    manual: 'sheet.pastEntry',
+};
+
+// Drinks are never logged with the one-tap flow, so 'quick' doesn't apply to them.
+const INTAKE_TITLES: Record<EntrySheetMode, MessageKey> = {
+    quick: 'sheet.addIntake',
+    edit: 'sheet.editIntake',
+    manual: 'sheet.addIntake',
+};
+
+const GLUCOSE_TITLES: Record<EntrySheetMode, MessageKey> = {
+    quick: 'sheet.addGlucose',
+    edit: 'sheet.editGlucose',
+    manual: 'sheet.addGlucose',
+};
+
+const DOSE_TITLES: Record<EntrySheetMode, MessageKey> = {
+    quick: 'sheet.addDose',
+    edit: 'sheet.editDose',
+    manual: 'sheet.addDose',
+};
+
+// Common glass, cup and can sizes, offered as one-tap amounts for drinks.
+const INTAKE_PRESETS_ML = [150, 250, 330, 500];
+
+// Value for the amount input in the chosen unit.
+const formatAmount = (volumeMl: number, unit: VolumeUnit) => {
+    const amount = fromMillilitres(volumeMl, unit);
+    return unit === 'oz' ? amount.toFixed(1) : String(Math.round(amount));
+};
+
+const formatGlucoseValue = (mgDl: number, unit: GlucoseUnit) => {
+    const value = fromMgDl(mgDl, unit);
+    return unit === 'mmol/L' ? value.toFixed(1) : String(Math.round(value));
+};
+
+interface EntryDetailSheetProps {
+    entry: LogEntry;
+    mode: EntrySheetMode;
+    volumeUnit: VolumeUnit;
+    onVolumeUnitChange: (unit: VolumeUnit) => void;
+    glucoseUnit: GlucoseUnit;
+    onGlucoseUnitChange: (unit: GlucoseUnit) => void;
+    onSave: (entry: LogEntry) => void;
+    onDelete?: (entry: LogEntry) => void;
+    onClose: () => void;
+}
+
+const EntryDetailSheet: React.FC<EntryDetailSheetProps> = ({ entry, mode, volumeUnit, onVolumeUnitChange, glucoseUnit, onGlucoseUnitChange, onSave, onDelete, onClose }) => {
+    const intake = isIntake(entry);
+    const glucose = isGlucose(entry);
+    const doseEntry = isDose(entry);
+    const initialDateTime = toDateTimeLocalValue(entry.timestamp);
+    const [dateTime, setDateTime] = useState<string>(initialDateTime);
+    const [error, setError] = useState<string | null>(null);
+    const [amountError, setAmountError] = useState<string | null>(null);
+    const [volume, setVolume] = useState<string>(() => entry.volumeMl === undefined ? '' : formatAmount(entry.volumeMl, volumeUnit));
+    const [urgency, setUrgency] = useState<UrgencyScore | undefined>(entry.urgency);
+    const [leakage, setLeakage] = useState<boolean>(!!entry.leakage);
+    const [note, setNote] = useState<string>(entry.note ?? '');
+    const [beverage, setBeverage] = useState<BeverageType | undefined>(entry.beverage);
+    const [glucoseValue, setGlucoseValue] = useState<string>(() => entry.glucoseMgDl === undefined ? '' : formatGlucoseValue(entry.glucoseMgDl, glucoseUnit));
+    const [glucoseTag, setGlucoseTag] = useState<GlucoseTag | undefined>(entry.glucoseTag);
+    const [dose, setDose] = useState<string>(entry.dose ?? '');
+
+    const handleUnitChange = (unit: VolumeUnit) => {
+        const amount = parseFloat(volume.replace(',', '.'));
+        if (Number.isFinite(amount)) {
+            setVolume(formatAmount(toMillilitres(amount, volumeUnit), unit));
+        }
+        onVolumeUnitChange(unit);
+    };
+
+    const handleGlucoseUnitChange = (unit: GlucoseUnit) => {
+        const value = parseFloat(glucoseValue.replace(',', '.'));
+        if (Number.isFinite(value)) {
+            setGlucoseValue(formatGlucoseValue(toMgDl(value, glucoseUnit), unit));
+        }
+        onGlucoseUnitChange(unit);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(volume.replace(',', '.'));
+        const trimmedNote = note.trim();
+        // Keep the original seconds unless the user actually changed the date or time.
+        const timestamp = dateTime === initialDateTime ? entry.timestamp : new Date(dateTime).getTime();
+        if (!Number.isFinite(timestamp)) {
+            setError(t('sheet.invalidDate'));
+            return;
+        }
+        if (timestamp > Date.now() + 60 * 1000) {
+            setError(t('sheet.futureDate'));
+            return;
+        }
+        if (doseEntry) {
+            const taken: LogEntry = { id: entry.id, timestamp, kind: 'dose', medicationName: entry.medicationName };
+            if (entry.medicationId) {
+                taken.medicationId = entry.medicationId;
+            }
+            if (dose.trim()) {
+                taken.dose = dose.trim();
+            }
+            if (trimmedNote) {
+                taken.note = trimmedNote;
+            }
+            onSave(taken);
+            return;
+        }
+        if (glucose) {
+            const value = parseFloat(glucoseValue.replace(',', '.'));
+            if (!Number.isFinite(value) || value <= 0) {
+                setAmountError(t('sheet.glucoseRequired'));
+                return;
+            }
+            const reading: LogEntry = { id: entry.id, timestamp, kind: 'glucose', glucoseMgDl: Math.round(toMgDl(value, glucoseUnit)) };
+            if (glucoseTag) {
+                reading.glucoseTag = glucoseTag;
+            }
+            if (trimmedNote) {
+                reading.note = trimmedNote;
+            }
+            onSave(reading);
+            return;
+        }
+        const hasAmount = Number.isFinite(amount) && amount > 0;
+        if (intake) {
+            if (!hasAmount) {
+                setAmountError(t('sheet.intakeRequired'));
+                return;
+            }
+            const drink: LogEntry = { id: entry.id, timestamp, kind: 'intake', volumeMl: Math.round(toMillilitres(amount, volumeUnit)) };
+            if (beverage) {
+                drink.beverage = beverage;
+            }
+            if (trimmedNote) {
+                drink.note = trimmedNote;
+            }
+            onSave(drink);
+            return;
+        }
+        const updated: LogEntry = { id: entry.id, timestamp };
+        if (hasAmount) {
+            updated.volumeMl = Math.round(toMillilitres(amount, volumeUnit));
+        }
+        if (urgency !== undefined) {
+            updated.urgency = urgency;
+        }
+        if (leakage) {
+            updated.leakage = true;
+        }
+        if (trimmedNote) {
+            updated.note = trimmedNote;
+        }
+        onSave(updated);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-end sm:items-center justify-center z-50" onClick={onClose}>
+            <form
+                onSubmit={handleSubmit}
+                className="bg-white dark:bg-gray-800 rounded-t-2xl sm:rounded-lg shadow-xl w-full max-w-md"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-semibold">{t((doseEntry ? DOSE_TITLES : glucose ? GLUCOSE_TITLES : intake ? INTAKE_TITLES : SHEET_TITLES)[mode])}</h3>
+                        {doseEntry && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{entry.medicationName}</p>
+                        )}
+                        {mode === 'quick' && !intake && !glucose && !doseEntry && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{t('sheet.quickSubtitle')}</p>
+                        )}
+                    </div>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-5 max-h-[70vh] overflow-y-auto">
+                    <div>
+                        <label htmlFor="entry-datetime" className="block text-sm font-medium mb-1">{t('sheet.dateTime')}</label>
+                        <input
+                            id="entry-datetime"
+                            type="datetime-local"
+                            required
+                            value={dateTime}
+                            max={toDateTimeLocalValue(Date.now())}
+                            onChange={e => { setDateTime(e.target.value); setError(null); }}
+                            className="w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                        />
+                        {error && <p className="text-sm text-red-600 dark:text-red-400 mt-1">{error}</p>}
+                    </div>
+
+                    {doseEntry ? (
+                        <div>
+                            <label htmlFor="entry-dose" className="block text-sm font-medium mb-1">{t('sheet.dose')}</label>
+                            <input
+                                id="entry-dose"
+                                type="text"
+                                value={dose}
+                                onChange={e => setDose(e.target.value)}
+                                placeholder={t('medications.dosePlaceholder')}
+                                className="w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                            />
+                        </div>
+                    ) : glucose ? (
+                        <>
+                            <div>
+                                <label htmlFor="entry-glucose" className="block text-sm font-medium mb-1">{t('sheet.glucose')}</label>
+                                <div className="flex items-center space-x-2">
+                                    <input
+                                        id="entry-glucose"
+                                        type="number"
+                                        inputMode="decimal"
+                                        min="0"
+                                        step={glucoseUnit === 'mmol/L' ? '0.1' : '1'}
+                                        required
+                                        value={glucoseValue}
+                                        onChange={e => { setGlucoseValue(e.target.value); setAmountError(null); }}
+                                        placeholder="—"
+                                        className="flex-1 px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                    <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-0.5">
+                                        {(['mg/dL', 'mmol/L'] as GlucoseUnit[]).map(unit => (
+                                            <button
+                                                key={unit}
+                                                type="button"
+                                                onClick={() => handleGlucoseUnitChange(unit)}
+                                                className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${glucoseUnit === unit ? 'bg-blue-500 text-white' : 'text-gray-700 dark:text-gray-200'}`}
+                                            >
+                                                {unit}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {amountError && <p className="text-sm text-red-600 dark:text-red-400 mt-1">{amountError}</p>}
+                            </div>
+
+                            <div>
+                                <span className="block text-sm font-medium mb-1">{t('sheet.glucoseTag')}</span>
+                                <div className="grid grid-cols-3 gap-1">
+                                    {(Object.keys(GLUCOSE_TAG_LABEL_KEYS) as GlucoseTag[]).map(tag => (
+                                        <button
+                                            key={tag}
+                                            type="button"
+                                            onClick={() => setGlucoseTag(glucoseTag === tag ? undefined : tag)}
+                                            className={`py-2 rounded-md text-sm font-semibold transition-colors ${glucoseTag === tag ? 'bg-rose-600 text-white' : 'bg-gray-100 dark:bg-gray-700'}`}
+                                            aria-pressed={glucoseTag === tag}
+                                        >
+                                            {t(GLUCOSE_TAG_LABEL_KEYS[tag])}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div>
+                                <label htmlFor="entry-volume" className="block text-sm font-medium mb-1">{intake ? t('sheet.amount') : t('sheet.volume')}</label>
+                                <div className="flex items-center space-x-2">
+                                    <input
+                                        id="entry-volume"
+                                        type="number"
+                                        inputMode="decimal"
+                                        min="0"
+                                        step={volumeUnit === 'oz' ? '0.1' : '1'}
+                                        required={intake}
+                                        value={volume}
+                                        onChange={e => { setVolume(e.target.value); setAmountError(null); }}
+                                        placeholder="—"
+                                        className="flex-1 px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                    <div className="flex items-center bg-gray-200 dark:bg-gray-700 rounded-full p-0.5">
+                                        {(['ml', 'oz'] as VolumeUnit[]).map(unit => (
+                                            <button
+                                                key={unit}
+                                                type="button"
+                                                onClick={() => handleUnitChange(unit)}
+                                                className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${volumeUnit === unit ? 'bg-blue-500 text-white' : 'text-gray-700 dark:text-gray-200'}`}
+                                            >
+                                                {unit === 'ml' ? 'mL' : 'oz'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {intake && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {INTAKE_PRESETS_ML.map(presetMl => (
+                                            <button
+                                                key={presetMl}
+                                                type="button"
+                                                onClick={() => { setVolume(formatAmount(presetMl, volumeUnit)); setAmountError(null); }}
+                                                className="px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                                            >
+                                                {formatVolume(presetMl, volumeUnit)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {amountError && <p className="text-sm text-red-600 dark:text-red-400 mt-1">{amountError}</p>}
+                            </div>
+
+                            {intake ? (
+                                <div>
+                                    <span className="block text-sm font-medium mb-1">{t('sheet.beverage')}</span>
+                                    <div className="grid grid-cols-4 gap-1">
+                                        {(Object.keys(BEVERAGE_LABEL_KEYS) as BeverageType[]).map(type => (
+                                            <button
+                                                key={type}
+                                                type="button"
+                                                onClick={() => setBeverage(beverage === type ? undefined : type)}
+                                                className={`py-2 rounded-md text-sm font-semibold transition-colors ${beverage === type ? 'bg-cyan-600 text-white' : 'bg-gray-100 dark:bg-gray-700'}`}
+                                                aria-pressed={beverage === type}
+                                            >
+                                                {t(BEVERAGE_LABEL_KEYS[type])}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <div>
+                                        <span className="block text-sm font-medium mb-1">{t('sheet.urgency')}</span>
+                                        <div className="grid grid-cols-5 gap-1">
+                                            {([0, 1, 2, 3, 4] as UrgencyScore[]).map(score => (
+                                                <button
+                                                    key={score}
+                                                    type="button"
+                                                    onClick={() => setUrgency(urgency === score ? undefined : score)}
+                                                    className={`py-2 rounded-md text-sm font-semibold transition-colors ${urgency === score ? 'bg-blue-500 text-white' : 'bg-gray-100 dark:bg-gray-700'}`}
+                                                    title={t(URGENCY_LABEL_KEYS[score])}
+                                                    aria-pressed={urgency === score}
+                                                >
+                                                    {score}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 h-4">
+                                            {urgency !== undefined && t(URGENCY_LABEL_KEYS[urgency])}
+                                        </p>
+                                    </div>
+
+                                    <label className="flex items-center space-x-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={leakage}
+                                            onChange={e => setLeakage(e.target.checked)}
+                                            className="w-5 h-5"
+                                        />
+                                        <span className="text-sm font-medium">{t('sheet.leakage')}</span>
+                                    </label>
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    <div>
+                        <label htmlFor="entry-note" className="block text-sm font-medium mb-1">{t('sheet.note')}</label>
+                        <textarea
+                            id="entry-note"
+                            rows={2}
+                            value={note}
+                            onChange={e => setNote(e.target.value)}
+                            className="w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                        />
+                    </div>
+                </div>
+
+                <div className="p-4 border-t dark:border-gray-700 flex items-center space-x-2">
+                    {onDelete && (
+                        <button
+                            type="button"
+                            onClick={() => onDelete(entry)}
+                            className="p-2 rounded-full text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                            aria-label={t('sheet.delete')}
+                        >
+                            <TrashIcon />
+                        </button>
+                    )}
+                    <div className="flex-1" />
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700">
+                        {mode === 'quick' ? t('sheet.skip') : t('common.cancel')}
+                    </button>
+                    <button type="submit" className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                        {t('common.save')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default EntryDetailSheet;
@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { DaySettings, GlucoseUnit, LogEntry } from '../types';
+import { formatNumber, t } from '../i18n';
+import { DayKeyRange } from '../utils/dates';
+import { formatDayKey, formatGlucose, fromMgDl } from '../utils/format';
+import { dailyGlucose, entriesInRange, pearsonCorrelation } from '../utils/stats';
+
+interface GlucoseCorrelationProps {
+    entries: LogEntry[];
+    range: DayKeyRange;
+    daySettings: DaySettings;
+    glucoseUnit: GlucoseUnit;
+    onDayClick: (dayKey: string) => void;
+}
+
+const chartWidth = 500;
+const chartHeight = 260;
+const chartPadding = { top: 16, right: 16, bottom: 36, left: 36 };
+
+// Plain-language reading of the correlation coefficient for the patient.
+const describeCorrelation = (r: number): string => {
+    const strength = Math.abs(r) < 0.3 ? 'weak' : Math.abs(r) < 0.6 ? 'moderate' : 'strong';
+    return t('correlation.describe', { strength, direction: r >= 0 ? 'more' : 'fewer' });
+};
+
+const GlucoseCorrelation: React.FC<GlucoseCorrelationProps> = ({ entries, range, daySettings, glucoseUnit, onDayClick }) => {
+    const days = useMemo(
+        () => dailyGlucose(entriesInRange(entries, range, daySettings), daySettings).filter(day => day.meanGlucoseMgDl !== null),
+        [entries, range, daySettings],
+    );
+
+    if (days.length === 0) {
+        return (
+            <div className="text-center py-16 px-4">
+                <p className="text-gray-500 dark:text-gray-400">{t('correlation.empty')}</p>
+                <p className="text-gray-500 dark:text-gray-400 mt-2">{t('correlation.emptyHint')}</p>
+            </div>
+        );
+    }
+
+    const glucoseValues = days.map(day => fromMgDl(day.meanGlucoseMgDl!, glucoseUnit));
+    const voidCounts = days.map(day => day.voidCount);
+    const correlation = pearsonCorrelation(glucoseValues, voidCounts);
+
+    // Axes padded around the data so points don't sit on the edges.
+    const glucoseStep = glucoseUnit === 'mmol/L' ? 2 : 25;
+    const xMin = Math.floor(Math.min(...glucoseValues) / glucoseStep) * glucoseStep;
+    const xMax = Math.max(Math.ceil(Math.max(...glucoseValues) / glucoseStep) * glucoseStep, xMin + glucoseStep);
+    const yMax = Math.max(...voidCounts, 1);
+    const plotWidth = chartWidth - chartPadding.left - chartPadding.right;
+    const plotHeight = chartHeight - chartPadding.top - chartPadding.bottom;
+    const x = (value: number) => chartPadding.left + plotWidth * ((value - xMin) / (xMax - xMin));
+    const y = (count: number) => chartPadding.top + plotHeight * (1 - count / yMax);
+    const xTicks = Array.from({ length: Math.round((xMax - xMin) / glucoseStep) + 1 }, (_, i) => xMin + i * glucoseStep);
+    const yTicks = Array.from(new Set([0, Math.round(yMax / 2), yMax]));
+
+    return (
+        <div className="space-y-4 pb-28">
+            <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">{t('correlation.title')}</h3>
+                <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} role="img" aria-label={t('correlation.chartLabel')} style={{ minWidth: '300px' }}>
+                    {yTicks.map(tick => (
+                        <g key={tick}>
+                            <text x={chartPadding.left - 6} y={y(tick)} textAnchor="end" dy="0.3em" className="text-xs fill-current text-gray-500 dark:text-gray-400">{tick}</text>
+                            <line x1={chartPadding.left} x2={chartWidth - chartPadding.right} y1={y(tick)} y2={y(tick)} className="stroke-current text-gray-200 dark:text-gray-700" strokeWidth="1" />
+                        </g>
+                    ))}
+                    {xTicks.map(tick => (
+                        <text key={tick} x={x(tick)} y={chartHeight - chartPadding.bottom + 15} textAnchor="middle" className="text-xs fill-current text-gray-500 dark:text-gray-400">{tick}</text>
+                    ))}
+                    <text x={chartPadding.left + plotWidth / 2} y={chartHeight - 4} textAnchor="middle" className="text-xs fill-current text-gray-500 dark:text-gray-400">{t('correlation.axis', { unit: glucoseUnit })}</text>
+                    {days.map((day, i) => (
+                        <circle
+                            key={day.dayKey}
+                            cx={x(glucoseValues[i])}
+                            cy={y(day.voidCount)}
+                            r="5"
+                            fillOpacity={0.7}
+                            onClick={() => onDayClick(day.dayKey)}
+                            className="fill-current text-rose-600 dark:text-rose-400 hover:text-rose-400 cursor-pointer"
+                        >
+                            <title>{`${formatDayKey(day.dayKey, { day: 'numeric', month: 'short' })}: ${t('correlation.voidCount', { count: day.voidCount })}, ${formatGlucose(day.meanGlucoseMgDl!, glucoseUnit)}`}</title>
+                        </circle>
+                    ))}
+                </svg>
+                <p className="text-sm mt-2">
+                    {correlation !== null
+                        ? <>{t('correlation.coefficient')} <strong>{formatNumber(correlation, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong>. {describeCorrelation(correlation)}</>
+                        : t('correlation.needsDays')}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('correlation.disclaimer')}</p>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800/50 rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b dark:border-gray-700 text-left text-gray-500 dark:text-gray-400">
+                            <th className="px-4 py-2">{t('report.day')}</th>
+                            <th className="px-4 py-2 text-right">{t('report.voids')}</th>
+                            <th className="px-4 py-2 text-right">{t('correlation.meanGlucose')}</th>
+                            <th className="px-4 py-2 text-right">{t('correlation.readings')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {[...days].reverse().map(day => (
+                            <tr key={day.dayKey} onClick={() => onDayClick(day.dayKey)} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                <td className="px-4 py-2 capitalize">{formatDayKey(day.dayKey, { weekday: 'short', day: 'numeric', month: 'short' })}</td>
+                                <td className="px-4 py-2 text-right font-semibold">{day.voidCount}</td>
+                                <td className="px-4 py-2 text-right">{formatGlucose(day.meanGlucoseMgDl!, glucoseUnit)}</td>
+                                <td className="px-4 py-2 text-right">{day.readingCount}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default GlucoseCorrelation;
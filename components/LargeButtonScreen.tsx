@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { DaySettings, LogEntry } from '../types';
+import { t } from '../i18n';
+import { dayKeyOf, todayKey } from '../utils/dates';
+import { formatTimestamp } from '../utils/format';
+import { CogIcon, GlassIcon, PlusIcon } from './Icons';
+
+interface LargeButtonScreenProps {
+    profileName: string;
+    // Voids only: drinks and glucose readings don't count towards the day's total.
+    voids: LogEntry[];
+    daySettings: DaySettings;
+    onLogVoid: () => void;
+    onLogIntake: () => void;
+    onOpenSettings: () => void;
+}
+
+/**
+ * The whole diary as two buttons that fill the screen, for patients with limited dexterity or
+ * eyesight. Charts and log management stay one step away, behind the settings button.
+ */
+const LargeButtonScreen: React.FC<LargeButtonScreenProps> = ({ profileName, voids, daySettings, onLogVoid, onLogIntake, onOpenSettings }) => {
+    const { todayCount, lastTimestamp } = useMemo(() => {
+        const today = todayKey(daySettings);
+        return {
+            todayCount: voids.filter(entry => dayKeyOf(entry.timestamp, daySettings) === today).length,
+            lastTimestamp: voids.length > 0 ? Math.max(...voids.map(entry => entry.timestamp)) : null,
+        };
+    }, [voids, daySettings]);
+
+    return (
+        <div className="min-h-screen flex flex-col p-4 space-y-4">
+            <div className="flex justify-between items-center">
+                <h1 className="text-2xl font-bold text-blue-800 dark:text-blue-300 truncate">{profileName}</h1>
+                <button
+                    onClick={onOpenSettings}
+                    className="p-3 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                    aria-label={t('header.settings')}
+                >
+                    <CogIcon className="w-8 h-8" />
+                </button>
+            </div>
+
+            <button
+                onClick={onLogVoid}
+                className="flex-1 min-h-[40vh] rounded-3xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg flex flex-col items-center justify-center space-y-4 transform transition-transform active:scale-95"
+            >
+                <PlusIcon className="w-24 h-24" />
+                <span className="text-4xl font-bold">{t('largeButtons.logVoid')}</span>
+            </button>
+
+            <button
+                onClick={onLogIntake}
+                className="min-h-[20vh] rounded-3xl bg-white dark:bg-gray-800 text-cyan-700 dark:text-cyan-300 shadow-lg flex items-center justify-center space-x-4 transform transition-transform active:scale-95"
+            >
+                <GlassIcon className="w-14 h-14" />
+                <span className="text-3xl font-bold">{t('largeButtons.logIntake')}</span>
+            </button>
+
+            <p className="text-center text-2xl pb-16" aria-live="polite">
+                {t('largeButtons.today', { count: todayCount })}
+                {lastTimestamp !== null && ` · ${t('largeButtons.last', { time: formatTimestamp(lastTimestamp, { timeStyle: 'short' }) })}`}
+            </p>
+        </div>
+    );
+};
+
+export default LargeButtonScreen;
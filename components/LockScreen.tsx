@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { t } from '../i18n';
+import { LockClosedIcon } from './Icons';
+
+interface LockScreenProps {
+    onUnlock: (passphrase: string) => Promise<boolean>;
+    onReset: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onReset }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase || busy) return;
+        setBusy(true);
+        setError(null);
+        const unlocked = await onUnlock(passphrase);
+        if (!unlocked) {
+            setBusy(false);
+            setPassphrase('');
+            setError(t('lock.wrongPassphrase'));
+        }
+    };
+
+    const handleForgot = () => {
+        if (window.confirm(t('lock.confirmReset'))) {
+            onReset();
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-sans flex items-center justify-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-xs p-6 space-y-4 text-center">
+                <LockClosedIcon className="w-10 h-10 mx-auto text-blue-600 dark:text-blue-300" />
+                <h1 className="text-xl font-bold text-blue-800 dark:text-blue-300">{t('app.title')}</h1>
+                <label className="block text-sm text-left">
+                    {t('lock.passphrase')}
+                    <input
+                        type="password"
+                        autoFocus
+                        autoComplete="current-password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-center tracking-widest"
+                    />
+                </label>
+                {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={!passphrase || busy}
+                    className="w-full px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                >
+                    {busy ? t('lock.unlocking') : t('lock.unlock')}
+                </button>
+                <button type="button" onClick={handleForgot} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+                    {t('lock.forgot')}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default LockScreen;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { AUTO_LOCK_MINUTES } from '../hooks/useAppLock';
+import { t } from '../i18n';
+import { LockClosedIcon, XMarkIcon } from './Icons';
+
+interface LockSettingsModalProps {
+    enabled: boolean;
+    autoLockMinutes: number;
+    onEnable: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+    // Resolves to false when the passphrase is wrong.
+    onDisable: (passphrase: string) => Promise<boolean>;
+    onAutoLockMinutesChange: (minutes: number) => void;
+    onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 4;
+
+const inputClassName = 'mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600';
+
+const LockSettingsModal: React.FC<LockSettingsModalProps> = ({ enabled, autoLockMinutes, onEnable, onDisable, onAutoLockMinutesChange, onClose }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [minutes, setMinutes] = useState(autoLockMinutes);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const handleEnable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setFormError(t('lock.tooShort', { count: MIN_PASSPHRASE_LENGTH }));
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setFormError(t('lock.mismatch'));
+            return;
+        }
+        setBusy(true);
+        setFormError(null);
+        try {
+            await onEnable(passphrase, minutes);
+            onClose();
+        } catch (error) {
+            console.error(error);
+            setFormError(t('lock.enableFailed'));
+            setBusy(false);
+        }
+    };
+
+    const handleDisable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setFormError(null);
+        try {
+            if (await onDisable(passphrase)) {
+                onClose();
+                return;
+            }
+            setFormError(t('lock.wrongPassphrase'));
+        } catch (error) {
+            console.error(error);
+            setFormError(t('lock.disableFailed'));
+        }
+        setPassphrase('');
+        setBusy(false);
+    };
+
+    const autoLockField = (
+        <label className="block text-sm">
+            {t('lock.autoLock')}
+            <select
+                value={enabled ? autoLockMinutes : minutes}
+                onChange={e => enabled ? onAutoLockMinutesChange(Number(e.target.value)) : setMinutes(Number(e.target.value))}
+                className={inputClassName}
+            >
+                {AUTO_LOCK_MINUTES.map(value => (
+                    <option key={value} value={value}>{t('lock.autoLockMinutes', { count: value })}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-lg font-semibold flex items-center space-x-2">
+                        <LockClosedIcon className="w-5 h-5" />
+                        <span>{t('lock.title')}</span>
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 max-h-[75vh] overflow-y-auto">
+                    {enabled ? (
+                        <>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('lock.enabledInfo')}
+                            </p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('lock.notEncrypted')}
+                            </p>
+                            {autoLockField}
+                            <form onSubmit={handleDisable} className="space-y-3 border-t dark:border-gray-700 pt-4">
+                                <h4 className="font-semibold">{t('lock.disableTitle')}</h4>
+                                <label className="block text-sm">
+                                    {t('lock.currentPassphrase')}
+                                    <input
+                                        type="password"
+                                        required
+                                        autoComplete="current-password"
+                                        value={passphrase}
+                                        onChange={e => setPassphrase(e.target.value)}
+                                        className={inputClassName}
+                                    />
+                                </label>
+                                {formError && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{formError}</p>}
+                                <div className="flex justify-end">
+                                    <button type="submit" disabled={busy} className="px-4 py-2 rounded-md bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-semibold">
+                                        {t('lock.disable')}
+                                    </button>
+                                </div>
+                            </form>
+                        </>
+                    ) : (
+                        <form onSubmit={handleEnable} className="space-y-3">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('lock.intro')}
+                            </p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t('lock.notEncrypted')}
+                            </p>
+                            <label className="block text-sm">
+                                {t('lock.passphrase')}
+                                <input
+                                    type="password"
+                                    required
+                                    autoComplete="new-password"
+                                    value={passphrase}
+                                    onChange={e => setPassphrase(e.target.value)}
+                                    className={inputClassName}
+                                />
+                            </label>
+                            <label className="block text-sm">
+                                {t('lock.repeatPassphrase')}
+                                <input
+                                    type="password"
+                                    required
+                                    autoComplete="new-password"
+                                    value={confirmation}
+                                    onChange={e => setConfirmation(e.target.value)}
+                                    className={inputClassName}
+                                />
+                            </label>
+                            {autoLockField}
+                            {formError && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{formError}</p>}
+                            <div className="flex justify-end">
+                                <button type="submit" disabled={busy} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold">
+                                    {busy ? t('lock.encrypting') : t('lock.enable')}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LockSettingsModal;
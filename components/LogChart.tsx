@@ -0,0 +1,297 @@
+import React, { useMemo } from 'react';
+import { DaySettings, GlucoseUnit, LogEntry, VolumeUnit } from '../types';
+import { t } from '../i18n';
+import { dayKeyOf, DayKeyRange, isInRange } from '../utils/dates';
+import { formatDayKey, formatGlucose, formatVolume, fromMgDl, fromMillilitres } from '../utils/format';
+import { isDose, isGlucose, isIntake, isVoid } from '../utils/schema';
+import { dailyGlucose } from '../utils/stats';
+import { describeExceedance, ThresholdExceedance } from '../utils/thresholds';
+
+interface LogChartProps {
+    // Drinks are ignored except in the frequency-volume view; glucose readings are drawn as a line over
+    // the daily bars and medication doses as vertical markers.
+    entries: LogEntry[];
+    range: DayKeyRange;
+    daySettings: DaySettings;
+    // Daily fluid intake against void count and output instead of the plain void count.
+    frequencyVolume?: boolean;
+    volumeUnit?: VolumeUnit;
+    glucoseUnit?: GlucoseUnit;
+    // Days above the clinical thresholds, drawn in another colour.
+    flaggedDays?: Map<string, ThresholdExceedance[]>;
+    onBarClick?: (dayKey: string) => void;
+}
+
+const LogChart: React.FC<LogChartProps> = ({ entries, range, daySettings, frequencyVolume, volumeUnit = 'ml', glucoseUnit = 'mg/dL', flaggedDays, onBarClick }) => {
+    if (frequencyVolume) {
+        return <FrequencyVolumeChart entries={entries} range={range} daySettings={daySettings} volumeUnit={volumeUnit} flaggedDays={flaggedDays} onBarClick={onBarClick} />;
+    }
+    return <FrequencyChart entries={entries} range={range} daySettings={daySettings} volumeUnit={volumeUnit} glucoseUnit={glucoseUnit} flaggedDays={flaggedDays} onBarClick={onBarClick} />;
+};
+
+// Appended to a day's tooltip: what it exceeded, if anything.
+const flagTitle = (flags: ThresholdExceedance[] | undefined, unit: VolumeUnit): string => {
+    return flags ? ` · ${t('thresholds.flagged')}: ${flags.map(flag => describeExceedance(flag, unit)).join(', ')}` : '';
+};
+
+const EmptyChart: React.FC = () => (
+    <div className="text-center py-16 px-4">
+        <p className="text-gray-500 dark:text-gray-400">{t('chart.empty')}</p>
+        <p className="text-gray-500 dark:text-gray-400 mt-2">{t('chart.emptyHint')}</p>
+    </div>
+);
+
+const FrequencyChart: React.FC<Omit<LogChartProps, 'frequencyVolume'> & { volumeUnit: VolumeUnit; glucoseUnit: GlucoseUnit }> = ({ entries, range, daySettings, volumeUnit, glucoseUnit, flaggedDays, onBarClick }) => {
+    const chartData = useMemo(() => {
+        const countsByDay = entries.filter(isVoid).reduce((acc, entry) => {
+            const dayKey = dayKeyOf(entry.timestamp, daySettings);
+            if (!isInRange(dayKey, range)) {
+                return acc;
+            }
+            acc[dayKey] = (acc[dayKey] ?? 0) + 1;
+            return acc;
+        }, {} as Record<string, number>);
+
+        const glucoseByDay = new Map<string, number>();
+        dailyGlucose(entries.filter(isGlucose), daySettings).forEach(day => {
+            if (day.meanGlucoseMgDl !== null && isInRange(day.dayKey, range)) {
+                glucoseByDay.set(day.dayKey, day.meanGlucoseMgDl);
+            }
+        });
+
+        const dosesByDay = new Map<string, string[]>();
+        entries.filter(isDose).forEach(entry => {
+            const dayKey = dayKeyOf(entry.timestamp, daySettings);
+            if (!isInRange(dayKey, range)) return;
+            const names = dosesByDay.get(dayKey) ?? [];
+            names.push(entry.dose ? `${entry.medicationName} ${entry.dose}` : entry.medicationName ?? '');
+            dosesByDay.set(dayKey, names);
+        });
+
+        // Days with readings or doses but no voids still get a (zero) bar so the overlays stay aligned with the days.
+        const dayKeys = new Set([...Object.keys(countsByDay), ...glucoseByDay.keys(), ...dosesByDay.keys()]);
+        return Array.from(dayKeys)
+            .map(dayKey => ({
+                label: formatDayKey(dayKey, { day: 'numeric', month: 'short' }),
+                value: countsByDay[dayKey] ?? 0,
+                meanGlucoseMgDl: glucoseByDay.get(dayKey) ?? null,
+                doses: dosesByDay.get(dayKey) ?? [],
+                fullDate: dayKey,
+            }))
+            .sort((a, b) => a.fullDate.localeCompare(b.fullDate));
+
+    }, [entries, range, daySettings]);
+
+    if (chartData.length === 0) {
+        return <EmptyChart />;
+    }
+
+    const maxValue = Math.max(...chartData.map(d => d.value), 0);
+    const yAxisTop = maxValue <= 5 ? maxValue : Math.ceil(maxValue / 5) * 5;
+    const numTicks = yAxisTop > 0 ? Math.min(yAxisTop, 5) : 0;
+    const yAxisLabels = yAxisTop > 0 ? Array.from({ length: numTicks + 1 }, (_, i) => Math.round((yAxisTop / numTicks) * i)) : [0];
+
+    const glucosePoints = chartData
+        .map((d, i) => ({ i, mgDl: d.meanGlucoseMgDl }))
+        .filter((point): point is { i: number; mgDl: number } => point.mgDl !== null);
+    const hasGlucose = glucosePoints.length > 0;
+    const hasDoses = chartData.some(d => d.doses.length > 0);
+    const hasFlags = chartData.some(d => flaggedDays?.has(d.fullDate));
+
+    const chartHeight = 250;
+    const chartPadding = { top: hasDoses ? 30 : 20, right: hasGlucose ? 40 : 20, bottom: 40, left: 30 };
+    const chartWidth = 500;
+    const plotHeight = chartHeight - chartPadding.top - chartPadding.bottom;
+    const slotWidth = (chartWidth - chartPadding.left - chartPadding.right) / chartData.length;
+
+    // Right axis for the glucose overlay, in the display unit, starting at zero like the bars.
+    const glucoseStep = glucoseUnit === 'mmol/L' ? 5 : 50;
+    const glucoseTop = Math.max(glucoseStep, Math.ceil(Math.max(0, ...glucosePoints.map(p => fromMgDl(p.mgDl, glucoseUnit))) / glucoseStep) * glucoseStep);
+    const glucoseY = (mgDl: number) => chartPadding.top + plotHeight * (1 - fromMgDl(mgDl, glucoseUnit) / glucoseTop);
+    const slotCenter = (i: number) => chartPadding.left + slotWidth * i + slotWidth * 0.5;
+
+    return (
+        <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
+            <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} role="img" aria-label={t('chart.dailyLabel')} style={{ minWidth: `${Math.max(300, chartData.length * 50)}px` }}>
+                {yAxisLabels.map((label, i) => {
+                    const y = chartPadding.top + (chartHeight - chartPadding.top - chartPadding.bottom) * (1 - label / (yAxisTop || 1));
+                    return (
+                        <g key={i}>
+                            <text x={chartPadding.left - 8} y={y} textAnchor="end" dy="0.3em" className="text-xs fill-current text-gray-500 dark:text-gray-400">{label}</text>
+                            <line x1={chartPadding.left} x2={chartWidth - chartPadding.right} y1={y} y2={y} className="stroke-current text-gray-200 dark:text-gray-700" strokeWidth="1" />
+                        </g>
+                    );
+                })}
+
+                {chartData.map((d, i) => d.doses.length > 0 && (
+                    <g key={d.fullDate} className="text-violet-600 dark:text-violet-400">
+                        <title>{`${d.label} · ${t('details.medication', { name: d.doses.join(', ') })}`}</title>
+                        <line x1={slotCenter(i)} x2={slotCenter(i)} y1={chartPadding.top - 8} y2={chartPadding.top + plotHeight} className="stroke-current" strokeWidth="1.5" strokeDasharray="4 3" />
+                        <circle cx={slotCenter(i)} cy={chartPadding.top - 10} r="4" className="fill-current" />
+                    </g>
+                ))}
+
+                {chartData.map((d, i) => {
+                    const barWidth = (chartWidth - chartPadding.left - chartPadding.right) / chartData.length * 0.6;
+                    const x = chartPadding.left + i * ((chartWidth - chartPadding.left - chartPadding.right) / chartData.length) + barWidth * 0.33;
+                    const barHeight = Math.max(0, (chartHeight - chartPadding.top - chartPadding.bottom) * (d.value / (yAxisTop || 1)));
+                    const y = chartPadding.top + (chartHeight - chartPadding.top - chartPadding.bottom) - barHeight;
+                    const flags = flaggedDays?.get(d.fullDate);
+
+                    return (
+                        <g key={d.fullDate} onClick={() => onBarClick?.(d.fullDate)} className="cursor-pointer group">
+                            <title>{`${d.label}: ${t('chart.times', { count: d.value })}${d.meanGlucoseMgDl !== null ? `, ${t('chart.meanGlucoseValue', { value: formatGlucose(d.meanGlucoseMgDl, glucoseUnit) })}` : ''}${flagTitle(flags, volumeUnit)}`}</title>
+                            <rect x={x} y={y} width={barWidth} height={barHeight} className={`fill-current transition-colors ${flags ? 'text-red-500 group-hover:text-red-400' : 'text-blue-500 group-hover:text-blue-400'}`} />
+                            <text x={x + barWidth / 2} y={y - 5} textAnchor="middle" className="text-xs font-bold fill-current text-gray-700 dark:text-gray-200">{d.value}</text>
+                            <text x={x + barWidth / 2} y={chartHeight - chartPadding.bottom + 15} textAnchor="middle" className="text-xs fill-current text-gray-500 dark:text-gray-400">{d.label}</text>
+                        </g>
+                    );
+                })}
+
+                {hasGlucose && (
+                    <g className="pointer-events-none">
+                        {[0, glucoseTop / 2, glucoseTop].map(tick => (
+                            <text key={tick} x={chartWidth - chartPadding.right + 6} y={chartPadding.top + plotHeight * (1 - tick / glucoseTop)} dy="0.3em" className="text-xs fill-current text-rose-600 dark:text-rose-400">{tick}</text>
+                        ))}
+                        <polyline
+                            points={glucosePoints.map(p => `${slotCenter(p.i)},${glucoseY(p.mgDl)}`).join(' ')}
+                            fill="none"
+                            strokeWidth="2"
+                            className="stroke-current text-rose-600 dark:text-rose-400"
+                        />
+                        {glucosePoints.map(p => (
+                            <circle key={p.i} cx={slotCenter(p.i)} cy={glucoseY(p.mgDl)} r="3.5" className="fill-current text-rose-600 dark:text-rose-400" />
+                        ))}
+                    </g>
+                )}
+            </svg>
+            {(hasGlucose || hasDoses || hasFlags) && (
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-600 dark:text-gray-300">
+                    <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-blue-500" />{t('report.voids')}</span>
+                    {hasFlags && (
+                        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-red-500" />{t('thresholds.flagged')}</span>
+                    )}
+                    {hasGlucose && (
+                        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-rose-600" />{t('chart.meanGlucoseAxis', { unit: glucoseUnit })}</span>
+                    )}
+                    {hasDoses && (
+                        <span className="flex items-center"><span className="inline-block w-0.5 h-3 mr-1 bg-violet-600" />{t('chart.dose')}</span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface FluidDay {
+    dayKey: string;
+    label: string;
+    intakeMl: number;
+    outputMl: number;
+    voids: number;
+}
+
+// Rounds the top of the volume axis to a tidy step in the display unit.
+const niceVolumeTop = (maxMl: number, unit: VolumeUnit): number => {
+    const step = unit === 'oz' ? 10 : 250;
+    const top = Math.ceil(fromMillilitres(maxMl, unit) / step) * step;
+    return Math.max(top, step);
+};
+
+const FrequencyVolumeChart: React.FC<Omit<LogChartProps, 'frequencyVolume'> & { volumeUnit: VolumeUnit }> = ({ entries, range, daySettings, volumeUnit, flaggedDays, onBarClick }) => {
+    const days = useMemo(() => {
+        const byDay = new Map<string, FluidDay>();
+        for (const entry of entries) {
+            const dayKey = dayKeyOf(entry.timestamp, daySettings);
+            if (!isInRange(dayKey, range)) continue;
+            let day = byDay.get(dayKey);
+            if (!day) {
+                day = { dayKey, label: formatDayKey(dayKey, { day: 'numeric', month: 'short' }), intakeMl: 0, outputMl: 0, voids: 0 };
+                byDay.set(dayKey, day);
+            }
+            if (isIntake(entry)) {
+                day.intakeMl += entry.volumeMl ?? 0;
+            } else if (isVoid(entry)) {
+                day.voids++;
+                day.outputMl += entry.volumeMl ?? 0;
+            }
+        }
+        return Array.from(byDay.values()).sort((a, b) => a.dayKey.localeCompare(b.dayKey));
+    }, [entries, range, daySettings]);
+
+    if (days.length === 0) {
+        return <EmptyChart />;
+    }
+
+    const chartHeight = 250;
+    const chartPadding = { top: 20, right: 36, bottom: 40, left: 44 };
+    const chartWidth = 500;
+    const plotHeight = chartHeight - chartPadding.top - chartPadding.bottom;
+    const slotWidth = (chartWidth - chartPadding.left - chartPadding.right) / days.length;
+    const barWidth = slotWidth * 0.3;
+
+    // Left axis: volume in the display unit. Right axis: number of voids.
+    const volumeTop = niceVolumeTop(Math.max(...days.map(d => Math.max(d.intakeMl, d.outputMl))), volumeUnit);
+    const volumeTicks = Array.from({ length: 5 }, (_, i) => (volumeTop / 4) * i);
+    const maxVoids = Math.max(...days.map(d => d.voids), 1);
+    const voidsTop = maxVoids <= 5 ? maxVoids : Math.ceil(maxVoids / 5) * 5;
+    const volumeY = (volumeMl: number) => chartPadding.top + plotHeight * (1 - fromMillilitres(volumeMl, volumeUnit) / volumeTop);
+    const voidsY = (voids: number) => chartPadding.top + plotHeight * (1 - voids / voidsTop);
+    const centerX = (i: number) => chartPadding.left + slotWidth * (i + 0.5);
+    const unitLabel = volumeUnit === 'oz' ? 'oz' : 'mL';
+    const hasFlags = days.some(d => flaggedDays?.has(d.dayKey));
+
+    return (
+        <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
+            <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} role="img" aria-label={t('chart.fluidLabel')} style={{ minWidth: `${Math.max(300, days.length * 60)}px` }}>
+                {volumeTicks.map((tick, i) => {
+                    const y = chartPadding.top + plotHeight * (1 - tick / volumeTop);
+                    return (
+                        <g key={i}>
+                            <text x={chartPadding.left - 6} y={y} textAnchor="end" dy="0.3em" className="text-xs fill-current text-gray-500 dark:text-gray-400">{Math.round(tick)}</text>
+                            <line x1={chartPadding.left} x2={chartWidth - chartPadding.right} y1={y} y2={y} className="stroke-current text-gray-200 dark:text-gray-700" strokeWidth="1" />
+                        </g>
+                    );
+                })}
+                <text x={chartPadding.left - 6} y={chartPadding.top - 8} textAnchor="end" className="text-xs fill-current text-gray-500 dark:text-gray-400">{unitLabel}</text>
+                {[0, voidsTop].map(tick => (
+                    <text key={tick} x={chartWidth - chartPadding.right + 6} y={voidsY(tick)} dy="0.3em" className="text-xs fill-current text-blue-600 dark:text-blue-400">{tick}</text>
+                ))}
+
+                {days.map((d, i) => {
+                    const x = centerX(i);
+                    const flags = flaggedDays?.get(d.dayKey);
+                    return (
+                        <g key={d.dayKey} onClick={() => onBarClick?.(d.dayKey)} className="cursor-pointer group">
+                            <title>{`${d.label}: ${t('chart.fluidDay', { intake: formatVolume(d.intakeMl, volumeUnit), output: formatVolume(d.outputMl, volumeUnit), count: d.voids })}${flagTitle(flags, volumeUnit)}`}</title>
+                            <rect x={x - slotWidth / 2} y={chartPadding.top} width={slotWidth} height={plotHeight} className="fill-transparent group-hover:fill-gray-100 dark:group-hover:fill-gray-700/40" />
+                            <rect x={x - barWidth - 1} y={volumeY(d.intakeMl)} width={barWidth} height={chartPadding.top + plotHeight - volumeY(d.intakeMl)} className="fill-current text-cyan-500" />
+                            <rect x={x + 1} y={volumeY(d.outputMl)} width={barWidth} height={chartPadding.top + plotHeight - volumeY(d.outputMl)} className="fill-current text-amber-500" />
+                            <text x={x} y={chartHeight - chartPadding.bottom + 15} textAnchor="middle" className={`text-xs fill-current ${flags ? 'font-bold text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{d.label}</text>
+                        </g>
+                    );
+                })}
+
+                <polyline
+                    points={days.map((d, i) => `${centerX(i)},${voidsY(d.voids)}`).join(' ')}
+                    fill="none"
+                    strokeWidth="2"
+                    className="stroke-current text-blue-600 dark:text-blue-400 pointer-events-none"
+                />
+                {days.map((d, i) => (
+                    <circle key={d.dayKey} cx={centerX(i)} cy={voidsY(d.voids)} r="3.5" className="fill-current text-blue-600 dark:text-blue-400 pointer-events-none" />
+                ))}
+            </svg>
+            <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-600 dark:text-gray-300">
+                <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-cyan-500" />{t('report.intake')}</span>
+                <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-amber-500" />{t('chart.output')}</span>
+                <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-blue-600" />{t('chart.voidsAxis')}</span>
+                {hasFlags && (
+                    <span className="flex items-center font-bold text-red-600 dark:text-red-400">{t('thresholds.flagged')}</span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LogChart;
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { DaySettings, LogEntry, Medication } from '../types';
+import { dayKeyOf, todayKey } from '../utils/dates';
+import { formatNumber as formatLocaleNumber, t } from '../i18n';
+import { formatDayKey } from '../utils/format';
+import { isDose, isVoid } from '../utils/schema';
+import { compareAroundDay, WindowStats } from '../utils/stats';
+
+interface MedicationComparisonProps {
+    // The whole log; voids are compared and doses are used to guess the start date.
+    entries: LogEntry[];
+    medications: Medication[];
+    daySettings: DaySettings;
+}
+
+const WINDOW_OPTIONS = [7, 14, 30];
+
+const formatNumber = (value: number | null) => value === null ? '—' : formatLocaleNumber(value, { maximumFractionDigits: 1 });
+
+const describeWindow = (window: WindowStats) => {
+    if (!window.fromKey || !window.toKey) return t('comparison.noEntries');
+    const format = (key: string) => formatDayKey(key, { day: 'numeric', month: 'short' });
+    return `${format(window.fromKey)} – ${format(window.toKey)} (${t('report.dayCount', { count: window.dayCount })})`;
+};
+
+/** Void frequency before and after a medication was started or changed. */
+const MedicationComparison: React.FC<MedicationComparisonProps> = ({ entries, medications, daySettings }) => {
+    const [medicationId, setMedicationId] = useState<string>(medications[0]?.id ?? '');
+    const [windowDays, setWindowDays] = useState<number>(WINDOW_OPTIONS[0]);
+    const [customKey, setCustomKey] = useState<string | null>(null);
+
+    const medication = medications.find(m => m.id === medicationId) ?? medications[0];
+
+    // Defaults to the start date from the medication list, then to the first logged dose.
+    const defaultKey = useMemo(() => {
+        if (!medication) return todayKey(daySettings);
+        if (medication.startDayKey) return medication.startDayKey;
+        const firstDose = entries
+            .filter(entry => isDose(entry) && entry.medicationId === medication.id)
+            .reduce((min, entry) => Math.min(min, entry.timestamp), Infinity);
+        return Number.isFinite(firstDose) ? dayKeyOf(firstDose, daySettings) : todayKey(daySettings);
+    }, [entries, medication, daySettings]);
+    const referenceKey = customKey ?? defaultKey;
+
+    const voids = useMemo(() => entries.filter(isVoid), [entries]);
+    const comparison = useMemo(
+        () => compareAroundDay(voids, referenceKey, windowDays, daySettings),
+        [voids, referenceKey, windowDays, daySettings],
+    );
+
+    if (!medication) return null;
+
+    const { before, after, change } = comparison;
+
+    return (
+        <section className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md space-y-3">
+            <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400">{t('comparison.title')}</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                <label>
+                    {t('comparison.medication')}
+                    <select
+                        value={medication.id}
+                        onChange={e => { setMedicationId(e.target.value); setCustomKey(null); }}
+                        className="mt-1 w-full px-2 py-1.5 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                    >
+                        {medications.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                </label>
+                <label>
+                    {t('comparison.referenceDay')}
+                    <input
+                        type="date"
+                        value={referenceKey}
+                        onChange={e => setCustomKey(e.target.value || null)}
+                        className="mt-1 w-full px-2 py-1.5 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                    />
+                </label>
+                <label>
+                    {t('comparison.windowDays')}
+                    <select
+                        value={windowDays}
+                        onChange={e => setWindowDays(Number(e.target.value))}
+                        className="mt-1 w-full px-2 py-1.5 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                    >
+                        {WINDOW_OPTIONS.map(days => <option key={days} value={days}>{t('report.dayCount', { count: days })}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                        <th className="py-1 font-normal"></th>
+                        <th className="py-1 text-right font-semibold">{t('comparison.before')}</th>
+                        <th className="py-1 text-right font-semibold">{t('comparison.after')}</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    <tr>
+                        <td className="py-1 text-gray-600 dark:text-gray-300">{t('report.voidsPerDay')}</td>
+                        <td className="py-1 text-right font-semibold">{formatNumber(before.perDay)}</td>
+                        <td className="py-1 text-right font-semibold">{formatNumber(after.perDay)}</td>
+                    </tr>
+                    <tr>
+                        <td className="py-1 text-gray-600 dark:text-gray-300">{t('stats.nightPerNight')}</td>
+                        <td className="py-1 text-right">{formatNumber(before.nightPerDay)}</td>
+                        <td className="py-1 text-right">{formatNumber(after.nightPerDay)}</td>
+                    </tr>
+                    <tr>
+                        <td className="py-1 text-gray-600 dark:text-gray-300">{t('report.period')}</td>
+                        <td className="py-1 text-right text-xs">{describeWindow(before)}</td>
+                        <td className="py-1 text-right text-xs">{describeWindow(after)}</td>
+                    </tr>
+                </tbody>
+            </table>
+
+            <p className="text-sm">
+                {change !== null
+                    ? <>{t('comparison.change')} <strong className={change > 0 ? 'text-red-600 dark:text-red-400' : change < 0 ? 'text-green-600 dark:text-green-400' : ''}>{formatLocaleNumber(change, { style: 'percent', maximumFractionDigits: 0, signDisplay: 'exceptZero' })}</strong></>
+                    : t('comparison.needsEntries')}
+            </p>
+        </section>
+    );
+};
+
+export default MedicationComparison;
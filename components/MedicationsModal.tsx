@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Medication, MedicationCategory } from '../types';
+import { t } from '../i18n';
+import { formatDayKey, MEDICATION_CATEGORY_LABEL_KEYS } from '../utils/format';
+import { createEntryId } from '../utils/schema';
+import { PencilIcon, PillIcon, TrashIcon, XMarkIcon } from './Icons';
+
+interface MedicationsModalProps {
+    medications: Medication[];
+    onChange: (medications: Medication[]) => void;
+    onLogDose: (medication: Medication) => void;
+    onClose: () => void;
+}
+
+const emptyDraft = (): Medication => ({ id: createEntryId(), name: '', category: 'other' });
+
+const inputClassName = 'mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600';
+
+const MedicationsModal: React.FC<MedicationsModalProps> = ({ medications, onChange, onLogDose, onClose }) => {
+    const [draft, setDraft] = useState<Medication>(emptyDraft);
+    const isEditing = medications.some(medication => medication.id === draft.id);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = draft.name.trim();
+        if (!name) return;
+        const saved: Medication = { id: draft.id, name, category: draft.category };
+        if (draft.dose?.trim()) {
+            saved.dose = draft.dose.trim();
+        }
+        if (draft.startDayKey) {
+            saved.startDayKey = draft.startDayKey;
+        }
+        onChange(isEditing ? medications.map(medication => medication.id === saved.id ? saved : medication) : [...medications, saved]);
+        setDraft(emptyDraft());
+    };
+
+    const handleDelete = (medication: Medication) => {
+        if (window.confirm(t('medications.confirmRemove', { name: medication.name }))) {
+            onChange(medications.filter(m => m.id !== medication.id));
+            if (draft.id === medication.id) {
+                setDraft(emptyDraft());
+            }
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-lg font-semibold">{t('medications.title')}</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-6 max-h-[75vh] overflow-y-auto">
+                    {medications.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {t('medications.intro')}
+                        </p>
+                    ) : (
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {medications.map(medication => (
+                                <li key={medication.id} className="py-2 flex items-center space-x-2">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium truncate">{medication.name}{medication.dose && <span className="text-gray-500 dark:text-gray-400"> · {medication.dose}</span>}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {t(MEDICATION_CATEGORY_LABEL_KEYS[medication.category])}
+                                            {medication.startDayKey && ` · ${t('medications.since', { date: formatDayKey(medication.startDayKey, { day: 'numeric', month: 'short', year: 'numeric' }) })}`}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => onLogDose(medication)}
+                                        className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-violet-600 hover:bg-violet-700 text-white text-sm font-semibold"
+                                    >
+                                        <PillIcon className="w-4 h-4" />
+                                        <span>{t('medications.dose')}</span>
+                                    </button>
+                                    <button onClick={() => setDraft(medication)} className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('medications.edit', { name: medication.name })}>
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDelete(medication)} className="p-1.5 rounded-full text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30" aria-label={t('medications.remove', { name: medication.name })}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <form onSubmit={handleSubmit} className="space-y-3 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{isEditing ? t('medications.editTitle') : t('medications.addTitle')}</h4>
+                        <label className="block text-sm">
+                            {t('medications.name')}
+                            <input
+                                type="text"
+                                required
+                                value={draft.name}
+                                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                                placeholder={t('medications.namePlaceholder')}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-sm">
+                                {t('medications.category')}
+                                <select
+                                    value={draft.category}
+                                    onChange={e => setDraft({ ...draft, category: e.target.value as MedicationCategory })}
+                                    className={inputClassName}
+                                >
+                                    {(Object.keys(MEDICATION_CATEGORY_LABEL_KEYS) as MedicationCategory[]).map(category => (
+                                        <option key={category} value={category}>{t(MEDICATION_CATEGORY_LABEL_KEYS[category])}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="text-sm">
+                                {t('medications.usualDose')}
+                                <input
+                                    type="text"
+                                    value={draft.dose ?? ''}
+                                    onChange={e => setDraft({ ...draft, dose: e.target.value })}
+                                    placeholder={t('medications.dosePlaceholder')}
+                                    className={inputClassName}
+                                />
+                            </label>
+                        </div>
+                        <label className="block text-sm">
+                            {t('medications.startDay')}
+                            <input
+                                type="date"
+                                value={draft.startDayKey ?? ''}
+                                onChange={e => setDraft({ ...draft, startDayKey: e.target.value || undefined })}
+                                className={inputClassName}
+                            />
+                            <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">{t('medications.startDayHint')}</span>
+                        </label>
+                        <div className="flex justify-end space-x-2">
+                            {isEditing && (
+                                <button type="button" onClick={() => setDraft(emptyDraft())} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700">
+                                    {t('common.cancel')}
+                                </button>
+                            )}
+                            <button type="submit" className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                                {isEditing ? t('common.save') : t('common.add')}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MedicationsModal;
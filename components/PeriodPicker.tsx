@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChartPeriod, DaySettings, PeriodSelection } from '../types';
+import { MessageKey, t } from '../i18n';
+import { addDays, DayKeyRange, todayKey } from '../utils/dates';
+import { formatDayKey } from '../utils/format';
+
+interface PeriodPickerProps {
+    selection: PeriodSelection;
+    // The days the selection resolves to, used for the label and to start a custom range from.
+    range: DayKeyRange;
+    daySettings: DaySettings;
+    onChange: (selection: PeriodSelection) => void;
+}
+
+const PERIOD_LABEL_KEYS: Record<ChartPeriod, MessageKey> = {
+    week: 'period.week',
+    month: 'period.month',
+    all: 'period.all',
+    custom: 'period.custom',
+};
+
+// A custom range started from 'all' covers the last week.
+const DEFAULT_CUSTOM_DAYS = 7;
+
+const inputClassName = 'px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-sm';
+
+const describeRange = (selection: PeriodSelection, { fromKey, toKey }: DayKeyRange): string => {
+    if (!fromKey || !toKey) return '';
+    if (selection.period === 'month') return formatDayKey(fromKey, { month: 'long', year: 'numeric' });
+    return `${formatDayKey(fromKey, { day: 'numeric', month: 'short' })} – ${formatDayKey(toKey, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
+
+const PeriodPicker: React.FC<PeriodPickerProps> = ({ selection, range, daySettings, onChange }) => {
+    const today = todayKey(daySettings);
+    const [rangeError, setRangeError] = useState<string | null>(null);
+
+    // An inverted range would silently empty everything that follows it, so it is not applied.
+    const changeCustomRange = (fromKey: string, toKey: string) => {
+        if (fromKey > toKey) {
+            setRangeError(t('period.invertedRange'));
+            return;
+        }
+        setRangeError(null);
+        onChange({ ...selection, fromKey, toKey });
+    };
+
+    const selectPeriod = (period: ChartPeriod) => {
+        setRangeError(null);
+        if (period === 'custom') {
+            const toKey = range.toKey ?? today;
+            const fromKey = range.fromKey ?? addDays(toKey, -(DEFAULT_CUSTOM_DAYS - 1));
+            onChange({ ...selection, period, fromKey, toKey });
+            return;
+        }
+        onChange({ ...selection, period, offset: 0 });
+    };
+
+    const pages = selection.period === 'week' || selection.period === 'month';
+
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-center items-center bg-gray-200 dark:bg-gray-700 rounded-full p-1 max-w-sm mx-auto">
+                {(Object.keys(PERIOD_LABEL_KEYS) as ChartPeriod[]).map(period => (
+                    <button
+                        key={period}
+                        onClick={() => selectPeriod(period)}
+                        className={`flex-1 px-3 py-1 text-sm font-semibold rounded-full transition-colors ${selection.period === period ? 'bg-blue-500 text-white shadow' : 'text-gray-700 dark:text-gray-200'}`}
+                    >
+                        {t(PERIOD_LABEL_KEYS[period])}
+                    </button>
+                ))}
+            </div>
+            {pages && (
+                <div className="flex justify-center items-center space-x-3 text-sm">
+                    <button
+                        onClick={() => onChange({ ...selection, offset: selection.offset - 1 })}
+                        className="px-3 py-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 font-bold"
+                        aria-label={t('period.previous')}
+                    >
+                        ‹
+                    </button>
+                    <span className="min-w-[10rem] text-center font-semibold capitalize">{describeRange(selection, range)}</span>
+                    <button
+                        onClick={() => onChange({ ...selection, offset: selection.offset + 1 })}
+                        disabled={selection.offset >= 0}
+                        className="px-3 py-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 font-bold disabled:opacity-30 disabled:hover:bg-transparent"
+                        aria-label={t('period.next')}
+                    >
+                        ›
+                    </button>
+                </div>
+            )}
+            {selection.period === 'custom' && (
+                <div className="flex justify-center items-center space-x-2 text-sm">
+                    <label className="flex items-center space-x-1">
+                        <span>{t('transfer.from')}</span>
+                        <input
+                            type="date"
+                            value={selection.fromKey}
+                            max={selection.toKey}
+                            onChange={e => e.target.value && changeCustomRange(e.target.value, selection.toKey)}
+                            className={inputClassName}
+                        />
+                    </label>
+                    <label className="flex items-center space-x-1">
+                        <span>{t('transfer.to')}</span>
+                        <input
+                            type="date"
+                            value={selection.toKey}
+                            min={selection.fromKey}
+                            max={today}
+                            onChange={e => e.target.value && changeCustomRange(selection.fromKey, e.target.value)}
+                            className={inputClassName}
+                        />
+                    </label>
+                </div>
+            )}
+            {selection.period === 'custom' && rangeError && (
+                <p className="text-center text-sm text-red-600 dark:text-red-400" role="alert">{rangeError}</p>
+            )}
+        </div>
+    );
+};
+
+export default PeriodPicker;
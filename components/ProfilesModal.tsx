@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { t } from '../i18n';
+import { PencilIcon, TrashIcon, UsersIcon, XMarkIcon } from './Icons';
+
+interface ProfilesModalProps {
+    profiles: Profile[];
+    activeProfileId: string;
+    onSwitch: (profileId: string) => void;
+    onAdd: (name: string) => void;
+    onRename: (profileId: string, name: string) => void;
+    onDelete: (profile: Profile) => void;
+    onClose: () => void;
+}
+
+const inputClassName = 'mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600';
+
+const ProfilesModal: React.FC<ProfilesModalProps> = ({ profiles, activeProfileId, onSwitch, onAdd, onRename, onDelete, onClose }) => {
+    // The profile being renamed, or null when the form adds a new one.
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        if (editingId) {
+            onRename(editingId, trimmed);
+        } else {
+            onAdd(trimmed);
+        }
+        setEditingId(null);
+        setName('');
+    };
+
+    const startEditing = (profile: Profile) => {
+        setEditingId(profile.id);
+        setName(profile.name);
+    };
+
+    const cancelEditing = () => {
+        setEditingId(null);
+        setName('');
+    };
+
+    const handleDelete = (profile: Profile) => {
+        if (window.confirm(t('profiles.confirmDelete', { name: profile.name }))) {
+            onDelete(profile);
+            if (editingId === profile.id) {
+                cancelEditing();
+            }
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-lg font-semibold">{t('profiles.title')}</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-6 max-h-[75vh] overflow-y-auto">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {t('profiles.intro')}
+                    </p>
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {profiles.map(profile => {
+                            const active = profile.id === activeProfileId;
+                            return (
+                                <li key={profile.id} className="py-2 flex items-center space-x-2">
+                                    <button
+                                        onClick={() => onSwitch(profile.id)}
+                                        className={`flex-1 min-w-0 flex items-center space-x-2 text-left px-2 py-1.5 rounded-md ${active ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-semibold' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                        aria-current={active ? 'true' : undefined}
+                                    >
+                                        <UsersIcon className="w-4 h-4 shrink-0" />
+                                        <span className="truncate">{profile.name}</span>
+                                        {active && <span className="text-xs font-normal">{t('profiles.current')}</span>}
+                                    </button>
+                                    <button onClick={() => startEditing(profile)} className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('profiles.rename', { name: profile.name })}>
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(profile)}
+                                        disabled={active}
+                                        className="p-1.5 rounded-full text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-30 disabled:hover:bg-transparent"
+                                        aria-label={t('profiles.delete', { name: profile.name })}
+                                        title={active ? t('profiles.deleteActiveHint') : undefined}
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    <form onSubmit={handleSubmit} className="space-y-3 border-t dark:border-gray-700 pt-4">
+                        <label className="block text-sm">
+                            <span className="font-semibold">{editingId ? t('profiles.newName') : t('profiles.add')}</span>
+                            <input
+                                type="text"
+                                required
+                                value={name}
+                                onChange={e => setName(e.target.value)}
+                                placeholder={t('profiles.namePlaceholder')}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <div className="flex justify-end space-x-2">
+                            {editingId && (
+                                <button type="button" onClick={cancelEditing} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700">
+                                    {t('common.cancel')}
+                                </button>
+                            )}
+                            <button type="submit" className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                                {editingId ? t('common.save') : t('common.add')}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProfilesModal;
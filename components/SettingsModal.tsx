@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { ClinicalThresholds, DaySettings, DisplaySettings, Locale, ReminderSettings, TimeFormat, VolumeUnit } from '../types';
+import { LOCALES, MessageKey, t } from '../i18n';
+import { minutesToTimeValue, timeValueToMinutes } from '../utils/dates';
+import { fromMillilitres, toMillilitres } from '../utils/format';
+import { LockClosedIcon, XMarkIcon } from './Icons';
+
+interface SettingsModalProps {
+    daySettings: DaySettings;
+    thresholds: ClinicalThresholds;
+    // Unit the output threshold is edited in.
+    volumeUnit: VolumeUnit;
+    reminderSettings: ReminderSettings;
+    displaySettings: DisplaySettings;
+    onSave: (daySettings: DaySettings, thresholds: ClinicalThresholds, reminderSettings: ReminderSettings, displaySettings: DisplaySettings) => void;
+    // Whether the PIN lock is on; it is managed in its own dialog because it applies at once.
+    lockEnabled: boolean;
+    onOpenLock: () => void;
+    onClose: () => void;
+}
+
+const TIME_FIELDS: { key: keyof DaySettings; label: MessageKey; hint: MessageKey }[] = [
+    { key: 'dayStartMinutes', label: 'settings.dayStart', hint: 'settings.dayStartHint' },
+    { key: 'sleepStartMinutes', label: 'settings.sleepStart', hint: 'settings.sleepStartHint' },
+    { key: 'sleepEndMinutes', label: 'settings.sleepEnd', hint: 'settings.sleepEndHint' },
+];
+
+// Reminder intervals are edited in hours; stored in minutes like the other settings.
+const REMINDER_INTERVALS: { enabledKey: 'timedVoidingEnabled' | 'inactivityEnabled'; minutesKey: 'intervalMinutes' | 'inactivityMinutes'; label: MessageKey; hint: MessageKey }[] = [
+    { enabledKey: 'timedVoidingEnabled', minutesKey: 'intervalMinutes', label: 'settings.timedVoiding', hint: 'settings.timedVoidingHint' },
+    { enabledKey: 'inactivityEnabled', minutesKey: 'inactivityMinutes', label: 'settings.inactivity', hint: 'settings.inactivityHint' },
+];
+
+const QUIET_FIELDS: { key: 'quietStartMinutes' | 'quietEndMinutes'; label: MessageKey }[] = [
+    { key: 'quietStartMinutes', label: 'settings.quietStart' },
+    { key: 'quietEndMinutes', label: 'settings.quietEnd' },
+];
+
+// The output limit is stored in millilitres and edited in the display unit.
+const THRESHOLD_FIELDS: { key: keyof ClinicalThresholds; label: MessageKey; volume?: boolean }[] = [
+    { key: 'maxVoidsPerDay', label: 'settings.maxVoidsPerDay' },
+    { key: 'maxNightVoids', label: 'settings.maxNightVoids' },
+    { key: 'maxOutputMl', label: 'settings.maxOutput', volume: true },
+];
+
+const TIME_FORMAT_LABEL_KEYS: Record<TimeFormat, MessageKey> = {
+    auto: 'settings.timeFormatAuto',
+    '12h': 'settings.timeFormat12',
+    '24h': 'settings.timeFormat24',
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ daySettings, thresholds, volumeUnit, reminderSettings, displaySettings, onSave, lockEnabled, onOpenLock, onClose }) => {
+    const [draft, setDraft] = useState<DaySettings>(daySettings);
+    const [thresholdsDraft, setThresholdsDraft] = useState<ClinicalThresholds>(thresholds);
+    const [reminderDraft, setReminderDraft] = useState<ReminderSettings>(reminderSettings);
+    const [displayDraft, setDisplayDraft] = useState<DisplaySettings>(displaySettings);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(draft, thresholdsDraft, reminderDraft, displayDraft);
+    };
+
+    const anyReminderEnabled = reminderDraft.timedVoidingEnabled || reminderDraft.inactivityEnabled;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-lg font-semibold">{t('settings.title')}</h3>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={t('common.close')}>
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-5 max-h-[70vh] overflow-y-auto">
+                    {TIME_FIELDS.map(({ key, label, hint }) => (
+                        <div key={key}>
+                            <label htmlFor={`settings-${key}`} className="block text-sm font-medium mb-1">{t(label)}</label>
+                            <input
+                                id={`settings-${key}`}
+                                type="time"
+                                required
+                                value={minutesToTimeValue(draft[key])}
+                                onChange={e => e.target.value && setDraft({ ...draft, [key]: timeValueToMinutes(e.target.value) })}
+                                className="w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t(hint)}</p>
+                        </div>
+                    ))}
+
+                    <section className="space-y-3 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{t('settings.thresholds')}</h4>
+                        {THRESHOLD_FIELDS.map(({ key, label, volume }) => {
+                            const limit = thresholdsDraft[key];
+                            return (
+                                <label key={key} className="flex items-center justify-between gap-3 text-sm">
+                                    <span>{t(label, { unit: volumeUnit === 'oz' ? 'oz' : 'mL' })}</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        step={1}
+                                        value={limit === null ? '' : volume ? Math.round(fromMillilitres(limit, volumeUnit)) : limit}
+                                        onChange={e => {
+                                            if (e.target.value === '') {
+                                                setThresholdsDraft({ ...thresholdsDraft, [key]: null });
+                                                return;
+                                            }
+                                            const value = Number(e.target.value);
+                                            if (value > 0) setThresholdsDraft({ ...thresholdsDraft, [key]: volume ? toMillilitres(value, volumeUnit) : value });
+                                        }}
+                                        className="w-24 px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </label>
+                            );
+                        })}
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.thresholdsHint')}</p>
+                    </section>
+
+                    <section className="space-y-4 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{t('settings.reminders')}</h4>
+                        {REMINDER_INTERVALS.map(({ enabledKey, minutesKey, label, hint }) => (
+                            <div key={enabledKey}>
+                                <div className="flex items-center justify-between gap-3">
+                                    <label className="flex items-center space-x-2 text-sm font-medium">
+                                        <input
+                                            type="checkbox"
+                                            checked={reminderDraft[enabledKey]}
+                                            onChange={e => setReminderDraft({ ...reminderDraft, [enabledKey]: e.target.checked })}
+                                            className="w-4 h-4"
+                                        />
+                                        <span>{t(label)}</span>
+                                    </label>
+                                    <label className="flex items-center space-x-2 text-sm">
+                                        <span>{t('settings.every')}</span>
+                                        <input
+                                            type="number"
+                                            min={0.5}
+                                            max={24}
+                                            step={0.5}
+                                            required
+                                            disabled={!reminderDraft[enabledKey]}
+                                            value={reminderDraft[minutesKey] / 60}
+                                            onChange={e => {
+                                                const hours = Number(e.target.value);
+                                                if (hours > 0) setReminderDraft({ ...reminderDraft, [minutesKey]: Math.round(hours * 60) });
+                                            }}
+                                            className="w-20 px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+                                        />
+                                        <span>{t('settings.hoursUnit')}</span>
+                                    </label>
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t(hint)}</p>
+                            </div>
+                        ))}
+                        <div className="grid grid-cols-2 gap-2">
+                            {QUIET_FIELDS.map(({ key, label }) => (
+                                <label key={key} className="text-sm">
+                                    {t(label)}
+                                    <input
+                                        type="time"
+                                        required
+                                        disabled={!anyReminderEnabled}
+                                        value={minutesToTimeValue(reminderDraft[key])}
+                                        onChange={e => e.target.value && setReminderDraft({ ...reminderDraft, [key]: timeValueToMinutes(e.target.value) })}
+                                        className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {t('settings.quietHint')}
+                        </p>
+                    </section>
+
+                    <section className="space-y-3 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{t('settings.display')}</h4>
+                        <label className="block text-sm">
+                            {t('settings.language')}
+                            <select
+                                value={displayDraft.locale}
+                                onChange={e => setDisplayDraft({ ...displayDraft, locale: e.target.value as Locale })}
+                                className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                            >
+                                {LOCALES.map(({ locale, name }) => (
+                                    <option key={locale} value={locale} lang={locale}>{name}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block text-sm">
+                            {t('settings.timeFormat')}
+                            <select
+                                value={displayDraft.timeFormat}
+                                onChange={e => setDisplayDraft({ ...displayDraft, timeFormat: e.target.value as TimeFormat })}
+                                className="mt-1 w-full px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                            >
+                                {(Object.keys(TIME_FORMAT_LABEL_KEYS) as TimeFormat[]).map(format => (
+                                    <option key={format} value={format}>{t(TIME_FORMAT_LABEL_KEYS[format])}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center space-x-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={displayDraft.largeButtons}
+                                onChange={e => setDisplayDraft({ ...displayDraft, largeButtons: e.target.checked })}
+                                className="w-4 h-4"
+                            />
+                            <span>{t('settings.largeButtons')}</span>
+                        </label>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {t('settings.largeButtonsHint')}
+                        </p>
+                    </section>
+
+                    <section className="space-y-2 border-t dark:border-gray-700 pt-4">
+                        <h4 className="font-semibold">{t('settings.privacy')}</h4>
+                        <button
+                            type="button"
+                            onClick={onOpenLock}
+                            className="w-full flex items-center justify-between px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-sm"
+                        >
+                            <span className="flex items-center space-x-2">
+                                <LockClosedIcon className="w-4 h-4" />
+                                <span>{t('settings.lock')}</span>
+                            </span>
+                            <span className="text-gray-500 dark:text-gray-400">{lockEnabled ? t('settings.on') : t('settings.off')}</span>
+                        </button>
+                    </section>
+                </div>
+
+                <div className="p-4 border-t dark:border-gray-700 flex justify-end space-x-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700">
+                        {t('common.cancel')}
+                    </button>
+                    <button type="submit" className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-semibold">
+                        {t('common.save')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SettingsModal;
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { DaySettings, LogEntry } from '../types';
+import { MessageKey, formatNumber as formatLocaleNumber, t } from '../i18n';
+import { DayKeyRange } from '../utils/dates';
+import { formatDuration, formatMinutesOfDay } from '../utils/format';
+import { computePeriodStats, Trend } from '../utils/stats';
+
+interface StatsDashboardProps {
+    entries: LogEntry[];
+    range: DayKeyRange;
+    daySettings: DaySettings;
+}
+
+const TREND_ARROWS: Record<Trend, { symbol: string; label: MessageKey; className: string }> = {
+    up: { symbol: '↑', label: 'trend.up', className: 'text-red-600 dark:text-red-400' },
+    down: { symbol: '↓', label: 'trend.down', className: 'text-green-600 dark:text-green-400' },
+    flat: { symbol: '→', label: 'trend.flat', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+const formatNumber = (value: number) => formatLocaleNumber(value, { maximumFractionDigits: 1 });
+
+const StatCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md">
+        <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">{title}</h3>
+        {children}
+    </section>
+);
+
+const StatRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="flex justify-between py-1 text-sm">
+        <span className="text-gray-600 dark:text-gray-300">{label}</span>
+        <span className="font-semibold">{value}</span>
+    </div>
+);
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+    if (values.length < 2) return null;
+    const width = 300;
+    const height = 60;
+    const max = Math.max(...values, 1);
+    const points = values
+        .map((value, i) => `${(i / (values.length - 1)) * width},${height - (value / max) * (height - 4) - 2}`)
+        .join(' ');
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-16 mt-2" preserveAspectRatio="none" role="img" aria-label={t('stats.sparkline')}>
+            <polyline points={points} fill="none" strokeWidth="2" className="stroke-current text-blue-500" vectorEffect="non-scaling-stroke" />
+        </svg>
+    );
+};
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ entries, range, daySettings }) => {
+    const stats = useMemo(() => computePeriodStats(entries, range, daySettings), [entries, range, daySettings]);
+    const { perDay, summary } = stats;
+
+    if (summary.totalVoids === 0) {
+        return (
+            <div className="text-center py-16 px-4">
+                <p className="text-gray-500 dark:text-gray-400">{t('stats.empty')}</p>
+            </div>
+        );
+    }
+
+    const latestAverage = stats.rollingAverage[stats.rollingAverage.length - 1];
+    const trend = TREND_ARROWS[stats.trend];
+
+    return (
+        <div className="grid gap-4 sm:grid-cols-2">
+            <StatCard title={t('report.voidsPerDay')}>
+                <p className="text-3xl font-bold">{perDay ? formatNumber(perDay.mean) : '—'}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('stats.meanOver', { count: stats.dayKeys.length })}</p>
+                {perDay && (
+                    <>
+                        <StatRow label={t('stats.median')} value={formatNumber(perDay.median)} />
+                        <StatRow label={t('stats.min')} value={String(perDay.min)} />
+                        <StatRow label={t('stats.max')} value={String(perDay.max)} />
+                    </>
+                )}
+            </StatCard>
+
+            <StatCard title={t('stats.interval')}>
+                <p className="text-3xl font-bold">{summary.meanIntervalMs !== null ? formatDuration(summary.meanIntervalMs) : '—'}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('stats.meanInterval')}</p>
+                <StatRow label={t('stats.longest')} value={summary.longestIntervalMs !== null ? formatDuration(summary.longestIntervalMs) : '—'} />
+            </StatCard>
+
+            <StatCard title={t('stats.dayAndNight')}>
+                <StatRow label={t('stats.dayPerDay')} value={formatNumber(stats.dayPerDay)} />
+                <StatRow label={t('stats.nightPerNight')} value={formatNumber(stats.nightPerDay)} />
+                <StatRow label={t('stats.dayNightTotal')} value={`${summary.dayCount} / ${summary.nightCount}`} />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {t('stats.nightWindow', { from: formatMinutesOfDay(daySettings.sleepStartMinutes), to: formatMinutesOfDay(daySettings.sleepEndMinutes) })}
+                </p>
+            </StatCard>
+
+            <StatCard title={t('stats.rollingAverage')}>
+                <div className="flex items-baseline space-x-2">
+                    <p className="text-3xl font-bold">{latestAverage !== undefined ? formatNumber(latestAverage) : '—'}</p>
+                    <span className={`text-2xl font-bold ${trend.className}`} title={t(trend.label)} aria-label={t(trend.label)}>{trend.symbol}</span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {stats.previousRollingAverage !== null
+                        ? t('stats.previousWeek', { value: formatNumber(stats.previousRollingAverage) })
+                        : t('stats.noPreviousWeek')}
+                </p>
+                <Sparkline values={stats.rollingAverage} />
+            </StatCard>
+
+            <StatCard title={t('stats.streak')}>
+                <p className="text-3xl font-bold">{t('report.dayCount', { count: stats.streak })}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t('stats.streakHint')}</p>
+            </StatCard>
+        </div>
+    );
+};
+
+export default StatsDashboard;
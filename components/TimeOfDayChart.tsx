@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { DaySettings, LogEntry } from '../types';
+import { DayKeyRange, weekdayIndex } from '../utils/dates';
+import { t } from '../i18n';
+import { formatMinutesOfDay, formatTimestamp, weekdayName } from '../utils/format';
+import { entriesInRange } from '../utils/stats';
+
+// weekday is null when the slot covers every day of the week (a histogram bar).
+export interface TimeSlot {
+    weekday: number | null;
+    hour: number;
+}
+
+interface TimeOfDayChartProps {
+    entries: LogEntry[];
+    range: DayKeyRange;
+    daySettings: DaySettings;
+    onSlotClick: (slot: TimeSlot) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Axis label for the hour, e.g. "13" or "1 p.m." depending on the clock.
+const hourLabel = (hour: number) => formatTimestamp(new Date(2024, 0, 1, hour).getTime(), { hour: 'numeric' });
+
+export const describeTimeSlot = ({ weekday, hour }: TimeSlot): string => {
+    const hours = `${formatMinutesOfDay(hour * 60)} – ${formatMinutesOfDay(((hour + 1) % 24) * 60)}`;
+    return weekday === null ? t('timeOfDay.everyDay', { hours }) : `${weekdayName(weekday, 'long')}, ${hours}`;
+};
+
+const chartWidth = 500;
+const labelWidth = 36;
+const cellWidth = (chartWidth - labelWidth - 4) / 24;
+const cellHeight = 20;
+
+const TimeOfDayChart: React.FC<TimeOfDayChartProps> = ({ entries, range, daySettings, onSlotClick }) => {
+    const { grid, hourly } = useMemo(() => {
+        const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+        const hourly = new Array<number>(24).fill(0);
+        for (const entry of entriesInRange(entries, range, daySettings)) {
+            const hour = new Date(entry.timestamp).getHours();
+            grid[weekdayIndex(entry.timestamp)][hour]++;
+            hourly[hour]++;
+        }
+        return { grid, hourly };
+    }, [entries, range, daySettings]);
+
+    const weekdayLabels = grid.map((_, weekday) => weekdayName(weekday, 'short'));
+    const maxCell = Math.max(...grid.flat(), 0);
+    const maxHour = Math.max(...hourly, 0);
+
+    if (maxHour === 0) {
+        return (
+            <div className="text-center py-16 px-4">
+                <p className="text-gray-500 dark:text-gray-400">{t('chart.empty')}</p>
+                <p className="text-gray-500 dark:text-gray-400 mt-2">{t('chart.emptyHint')}</p>
+            </div>
+        );
+    }
+
+    const heatmapHeight = 16 + cellHeight * 7;
+    const histogramHeight = 160;
+    const histogramPadding = { top: 16, bottom: 20 };
+    const barArea = histogramHeight - histogramPadding.top - histogramPadding.bottom;
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">{t('timeOfDay.heatmapTitle')}</h3>
+                <svg viewBox={`0 0 ${chartWidth} ${heatmapHeight}`} role="img" aria-label={t('timeOfDay.heatmapLabel')} style={{ minWidth: '480px' }}>
+                    {HOURS.filter(hour => hour % 3 === 0).map(hour => (
+                        <text key={hour} x={labelWidth + hour * cellWidth} y={10} className="text-[9px] fill-current text-gray-500 dark:text-gray-400">{hourLabel(hour)}</text>
+                    ))}
+                    {grid.map((row, weekday) => (
+                        <g key={weekday}>
+                            <text x={labelWidth - 6} y={16 + weekday * cellHeight + cellHeight / 2} textAnchor="end" dy="0.3em" className="text-xs fill-current text-gray-500 dark:text-gray-400 capitalize">
+                                {weekdayLabels[weekday]}
+                            </text>
+                            {row.map((count, hour) => (
+                                <rect
+                                    key={hour}
+                                    x={labelWidth + hour * cellWidth + 1}
+                                    y={16 + weekday * cellHeight + 1}
+                                    width={cellWidth - 2}
+                                    height={cellHeight - 2}
+                                    rx={2}
+                                    fillOpacity={count === 0 ? 1 : 0.2 + 0.8 * (count / (maxCell || 1))}
+                                    onClick={() => count > 0 && onSlotClick({ weekday, hour })}
+                                    className={count === 0
+                                        ? 'fill-current text-gray-100 dark:text-gray-700/50'
+                                        : 'fill-current text-blue-500 hover:text-blue-400 cursor-pointer transition-colors'}
+                                >
+                                    <title>{`${weekdayLabels[weekday]} ${hourLabel(hour)}: ${t('chart.times', { count })}`}</title>
+                                </rect>
+                            ))}
+                        </g>
+                    ))}
+                </svg>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md overflow-x-auto">
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">{t('timeOfDay.histogramTitle')}</h3>
+                <svg viewBox={`0 0 ${chartWidth} ${histogramHeight}`} role="img" aria-label={t('timeOfDay.histogramLabel')} style={{ minWidth: '480px' }}>
+                    {hourly.map((count, hour) => {
+                        const barHeight = barArea * (count / (maxHour || 1));
+                        const x = labelWidth + hour * cellWidth + 1;
+                        const y = histogramPadding.top + barArea - barHeight;
+                        return (
+                            <g key={hour} onClick={() => count > 0 && onSlotClick({ weekday: null, hour })} className={count > 0 ? 'cursor-pointer group' : undefined}>
+                                <title>{`${hourLabel(hour)}: ${t('chart.times', { count })}`}</title>
+                                <rect x={x} y={y} width={cellWidth - 2} height={barHeight} className="fill-current text-blue-500 group-hover:text-blue-400 transition-colors" />
+                                {count > 0 && (
+                                    <text x={x + (cellWidth - 2) / 2} y={y - 3} textAnchor="middle" className="text-[9px] font-bold fill-current text-gray-700 dark:text-gray-200">{count}</text>
+                                )}
+                                {hour % 3 === 0 && (
+                                    <text x={x} y={histogramHeight - 6} className="text-[9px] fill-current text-gray-500 dark:text-gray-400">{hourLabel(hour)}</text>
+                                )}
+                            </g>
+                        );
+                    })}
+                    <line x1={labelWidth} x2={chartWidth - 4} y1={histogramPadding.top + barArea} y2={histogramPadding.top + barArea} className="stroke-current text-gray-200 dark:text-gray-700" strokeWidth="1" />
+                </svg>
+            </div>
+        </div>
+    );
+};
+
+export default TimeOfDayChart;
@@ -0,0 +1,199 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WrappedKey, createLogKey, unwrapLogKey } from '../utils/crypto';
+import { lockStorage, resealStorage, unsealStorage } from '../utils/sealedStorage';
+import { LOCK_SETTINGS_KEY, deleteLogDb, deleteSetting, drainPendingEntries, getSetting, putSetting, resealEntries, setLogKey } from '../utils/logDb';
+
+// Tells other tabs the lock was turned on or off, like the log sync in useLogStore.
+const LOCK_CHANNEL = 'registro-miccion-lock';
+const LOCK_STORAGE_KEY = 'lock:changed';
+
+export const AUTO_LOCK_MINUTES = [1, 5, 15, 30];
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+interface LockConfig {
+  wrapped: WrappedKey;
+  autoLockMinutes: number;
+}
+
+export interface AppLockState {
+  // False until the lock settings have been read; nothing should be shown before.
+  ready: boolean;
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+  // Resolves to false when the passphrase is wrong.
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  enable: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+  disable: (passphrase: string) => Promise<boolean>;
+  setAutoLockMinutes: (minutes: number) => Promise<void>;
+  // The way out of a forgotten passphrase: encrypted data can't be recovered.
+  resetAllData: () => Promise<void>;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart'];
+
+/**
+ * Optional passphrase lock. While it is on, the log and the health data among the settings
+ * (see isHealthDataKey) are encrypted at rest with a key that only exists in memory between
+ * unlocking and locking again, which happens after a period without interaction.
+ */
+function useAppLock(): AppLockState {
+  const [config, setConfig] = useState<LockConfig | null>(null);
+  const [ready, setReady] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const lastActivity = useRef(Date.now());
+  const channel = useRef<BroadcastChannel | null>(null);
+
+  // Another tab is re-encrypting the log: entries this tab wrote with its old key, or in the
+  // clear, would be missed or left unreadable, so start over from what is stored now. Announced
+  // once before re-encrypting, so other tabs come back locked and stop writing, and once after.
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === LOCK_STORAGE_KEY) window.location.reload();
+    };
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel.current = new BroadcastChannel(LOCK_CHANNEL);
+      channel.current.onmessage = () => window.location.reload();
+    } else {
+      window.addEventListener('storage', handleStorage);
+    }
+
+    return () => {
+      channel.current?.close();
+      channel.current = null;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const announceLockChange = useCallback(() => {
+    if (channel.current) {
+      channel.current.postMessage('changed');
+    } else {
+      window.localStorage.setItem(LOCK_STORAGE_KEY, String(Date.now()));
+    }
+  }, []);
+
+  useEffect(() => {
+    getSetting<LockConfig>(LOCK_SETTINGS_KEY)
+      .then(stored => {
+        if (stored) {
+          setConfig(stored);
+          setLocked(true);
+        }
+      })
+      .catch(error => console.error(error))
+      .finally(() => setReady(true));
+  }, []);
+
+  const lock = useCallback(() => {
+    setLogKey(null);
+    lockStorage();
+    setLocked(true);
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    if (!config) return true;
+    let key: CryptoKey;
+    try {
+      key = await unwrapLogKey(passphrase, config.wrapped);
+    } catch {
+      return false;
+    }
+    setLogKey(key);
+    try {
+      await unsealStorage(key);
+      // Turning the lock on may have stopped before everything was encrypted, and entries
+      // sealed by older versions lack the readable time the log is indexed by.
+      await resealEntries(key, true);
+      await resealStorage(key, true);
+    } catch (error) {
+      console.error(error);
+    }
+    lastActivity.current = Date.now();
+    setLocked(false);
+    return true;
+  }, [config]);
+
+  const enable = useCallback(async (passphrase: string, autoLockMinutes: number) => {
+    const { key, wrapped } = await createLogKey(passphrase);
+    const next: LockConfig = { wrapped, autoLockMinutes };
+    // Saved before encrypting: if encrypting fails the entries stay readable and are sealed on the next unlock.
+    await putSetting(LOCK_SETTINGS_KEY, next);
+    setConfig(next);
+    announceLockChange();
+    await resealEntries(key);
+    await resealStorage(key);
+    announceLockChange();
+  }, [announceLockChange]);
+
+  const disable = useCallback(async (passphrase: string) => {
+    if (!config) return true;
+    try {
+      setLogKey(await unwrapLogKey(passphrase, config.wrapped));
+    } catch {
+      return false;
+    }
+    announceLockChange();
+    // Queued entries are sealed first, then decrypted with the rest.
+    await drainPendingEntries();
+    await resealEntries(null);
+    await resealStorage(null);
+    await deleteSetting(LOCK_SETTINGS_KEY);
+    setConfig(null);
+    announceLockChange();
+    return true;
+  }, [config, announceLockChange]);
+
+  const setAutoLockMinutes = useCallback(async (minutes: number) => {
+    if (!config) return;
+    const next = { ...config, autoLockMinutes: minutes };
+    setConfig(next);
+    await putSetting(LOCK_SETTINGS_KEY, next);
+  }, [config]);
+
+  const resetAllData = useCallback(async () => {
+    await deleteLogDb();
+    window.localStorage.clear();
+    window.location.reload();
+  }, []);
+
+  useEffect(() => {
+    if (!config || locked) return;
+
+    const limit = config.autoLockMinutes * 60 * 1000;
+    lastActivity.current = Date.now();
+    const markActivity = () => {
+      lastActivity.current = Date.now();
+    };
+    const check = () => {
+      if (Date.now() - lastActivity.current >= limit) lock();
+    };
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActivity, { passive: true }));
+    const timer = window.setInterval(check, 15 * 1000);
+    // Timers are throttled in the background, so check as soon as the app comes back.
+    document.addEventListener('visibilitychange', check);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActivity));
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, [config, locked, lock]);
+
+  return {
+    ready,
+    enabled: config !== null,
+    locked,
+    autoLockMinutes: config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    unlock,
+    lock,
+    enable,
+    disable,
+    setAutoLockMinutes,
+    resetAllData,
+  };
+}
+
+export default useAppLock;
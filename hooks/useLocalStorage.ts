@@ -1,28 +1,46 @@
 
-import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { readChangedItem, readItem, writeItem } from '../utils/sealedStorage';
+
+export interface LocalStorageOptions<T> {
+  // Converts the parsed JSON into the current shape, e.g. to run schema migrations.
+  deserialize?: (raw: unknown) => T;
+  // Converts the value into what gets written with JSON.stringify.
+  serialize?: (value: T) => unknown;
+}
 
 // FIX: Import Dispatch and SetStateAction from react and use them to fix namespace errors.
 // FIX: Removed trailing comma from generic type <T,> to <T> to fix TypeScript build error.
-function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
+function useLocalStorage<T>(key: string, initialValue: T, options: LocalStorageOptions<T> = {}): [T, Dispatch<SetStateAction<T>>] {
+  const { deserialize, serialize } = options;
+
   const [storedValue, setStoredValue] = useState<T>(() => {
     if (typeof window === 'undefined') {
       return initialValue;
     }
     try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
+      const item = readItem(key);
+      if (!item) {
+        return initialValue;
+      }
+      const parsed = JSON.parse(item);
+      return deserialize ? deserialize(parsed) : parsed;
     } catch (error) {
       console.error(error);
       return initialValue;
     }
   });
 
+  // Updaters read the latest value from this ref so callbacks held across renders (e.g. an undo action) don't act on stale data.
+  const latestValue = useRef<T>(storedValue);
+
   const setValue = (value: T | ((val: T) => T)) => {
     try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
+      const valueToStore = value instanceof Function ? value(latestValue.current) : value;
+      latestValue.current = valueToStore;
       setStoredValue(valueToStore);
       if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+        writeItem(key, JSON.stringify(serialize ? serialize(valueToStore) : valueToStore));
       }
     } catch (error) {
       console.error(error);
@@ -30,9 +48,20 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetState
   };
 
   useEffect(() => {
-    // This effect is not strictly necessary with the current setup, but good for syncing across tabs in more complex scenarios.
-    // For this app, the direct `setValue` is sufficient.
-  }, [key, storedValue]);
+    // Pick up writes to the same key from other tabs and windows.
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea !== window.localStorage || e.key !== key) return;
+      readChangedItem(key, e.newValue).then(item => {
+        const parsed = item === null ? null : JSON.parse(item);
+        const next = parsed === null ? initialValue : deserialize ? deserialize(parsed) : parsed;
+        latestValue.current = next;
+        setStoredValue(next);
+      }).catch(error => console.error(error));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+    // initialValue and deserialize are treated as fixed for the lifetime of the hook.
+  }, [key]);
 
   return [storedValue, setValue];
 }
@@ -0,0 +1,46 @@
+import { useEffect, Dispatch, SetStateAction } from 'react';
+import { DisplaySettings } from '../types';
+import useLocalStorage from './useLocalStorage';
+import { LOCALES, detectLocale, setActiveLocale, t } from '../i18n';
+
+const DISPLAY_SETTINGS_KEY = 'displaySettings';
+
+// Written as `new URL(…, import.meta.url)` so Vite bundles each manifest like the one in index.html.
+const MANIFEST_URLS = {
+  es: new URL('../manifest.json', import.meta.url).href,
+  en: new URL('../manifest.en.json', import.meta.url).href,
+  pt: new URL('../manifest.pt.json', import.meta.url).href,
+};
+
+const sanitizeDisplaySettings = (raw: unknown): DisplaySettings => {
+  const value = (raw ?? {}) as Partial<DisplaySettings>;
+  return {
+    locale: LOCALES.some(({ locale }) => locale === value.locale) ? value.locale! : detectLocale(),
+    timeFormat: value.timeFormat === '12h' || value.timeFormat === '24h' ? value.timeFormat : 'auto',
+    largeButtons: value.largeButtons === true,
+  };
+};
+
+/**
+ * The chosen language and clock. The active locale is applied during render so every
+ * component and helper below translates in the same pass; the page metadata follows in an effect.
+ */
+function useLocale(): [DisplaySettings, Dispatch<SetStateAction<DisplaySettings>>] {
+  const [settings, setSettings] = useLocalStorage<DisplaySettings>(
+    DISPLAY_SETTINGS_KEY,
+    { locale: detectLocale(), timeFormat: 'auto', largeButtons: false },
+    { deserialize: sanitizeDisplaySettings },
+  );
+  setActiveLocale(settings.locale, settings.timeFormat);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.locale;
+    document.title = t('app.title');
+    document.querySelector('meta[name="description"]')?.setAttribute('content', t('app.description'));
+    document.querySelector('link[rel="manifest"]')?.setAttribute('href', MANIFEST_URLS[settings.locale]);
+  }, [settings.locale]);
+
+  return [settings, setSettings];
+}
+
+export default useLocale;
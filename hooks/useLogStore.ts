@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
+import { LogEntry } from '../types';
+import { LEGACY_LOG_KEY, clearEntries, drainPendingEntries, getAllEntries, getLogKey, hasNewerLegacyLog, isQuotaError, writeEntries } from '../utils/logDb';
+import { t } from '../i18n';
+import { DEFAULT_PROFILE_ID } from '../utils/profiles';
+import { migrateLog, NewerSchemaError } from '../utils/schema';
+
+const SYNC_CHANNEL = 'registro-miccion-log';
+// Fallback for browsers without BroadcastChannel: bumping this key fires `storage` events in other tabs.
+const SYNC_STORAGE_KEY = 'urinationLog:changed';
+
+const describeStorageError = (error: unknown): string => {
+  if (isQuotaError(error)) {
+    return t('storage.quota');
+  }
+  return t('storage.writeFailed');
+};
+
+/**
+ * Keeps one profile's log in IndexedDB and mirrors it in React state, newest first.
+ * Changes made in other tabs or windows are picked up automatically.
+ * `ready` is false until the first read has finished.
+ */
+function useLogStore(profileId: string, onError: (message: string) => void): [LogEntry[], Dispatch<SetStateAction<LogEntry[]>>, boolean] {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [ready, setReady] = useState(false);
+  const latestEntries = useRef<LogEntry[]>([]);
+  const channel = useRef<BroadcastChannel | null>(null);
+  // Bumped on every local change so a read that raced with a write can be discarded.
+  const writeGeneration = useRef(0);
+  // Writes are chained so they commit in the order they were made; encrypting one can take
+  // longer than the next. The chain never rejects: failures are reported where they happen.
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const applyEntries = useCallback((next: LogEntry[]) => {
+    latestEntries.current = next;
+    setEntries(next);
+  }, []);
+
+  const reload = useCallback(async () => {
+    try {
+      let generation: number;
+      let stored: LogEntry[];
+      // Entries logged from a notification while locked wait in a queue until there is a key.
+      await drainPendingEntries().catch(error => console.error(error));
+      // Read only once every pending write has committed, and again if another one was queued meanwhile.
+      do {
+        await writeQueue.current;
+        generation = writeGeneration.current;
+        stored = await getAllEntries(profileId);
+      } while (generation !== writeGeneration.current);
+      applyEntries(stored);
+      if (profileId === DEFAULT_PROFILE_ID && hasNewerLegacyLog()) {
+        onErrorRef.current(t('storage.newerVersion'));
+      }
+    } catch (error) {
+      console.error(error);
+      // Without IndexedDB (e.g. some private browsing modes) still show whatever the old storage holds.
+      try {
+        const legacy = profileId === DEFAULT_PROFILE_ID ? window.localStorage.getItem(LEGACY_LOG_KEY) : null;
+        if (legacy && latestEntries.current.length === 0) {
+          applyEntries(migrateLog(JSON.parse(legacy)));
+        }
+      } catch (legacyError) {
+        console.error(legacyError);
+        if (legacyError instanceof NewerSchemaError) {
+          onErrorRef.current(t('storage.newerVersion'));
+          return;
+        }
+      }
+      onErrorRef.current(t('storage.unavailable'));
+    } finally {
+      setReady(true);
+    }
+  }, [profileId, applyEntries]);
+
+  useEffect(() => {
+    reload();
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === SYNC_STORAGE_KEY) reload();
+    };
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel.current = new BroadcastChannel(SYNC_CHANNEL);
+      channel.current.onmessage = () => reload();
+    } else {
+      window.addEventListener('storage', handleStorage);
+    }
+
+    return () => {
+      channel.current?.close();
+      channel.current = null;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [reload]);
+
+  const setLog = useCallback((value: SetStateAction<LogEntry[]>) => {
+    const previous = latestEntries.current;
+    const next = value instanceof Function ? value(previous) : value;
+    applyEntries(next);
+
+    // Persist only what changed; untouched entries keep their object identity.
+    const nextIds = new Set(next.map(entry => entry.id));
+    const previousById = new Map(previous.map(entry => [entry.id, entry]));
+    const changed = next.filter(entry => previousById.get(entry.id) !== entry);
+    const removedIds = previous.filter(entry => !nextIds.has(entry.id)).map(entry => entry.id);
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    writeGeneration.current++;
+    // The key is taken now: the app may lock before the write gets its turn.
+    const key = getLogKey();
+    const write = () => next.length === 0 ? clearEntries(profileId) : writeEntries(profileId, changed, removedIds, key);
+    writeQueue.current = writeQueue.current.then(write).then(() => {
+      if (channel.current) {
+        channel.current.postMessage('changed');
+      } else {
+        window.localStorage.setItem(SYNC_STORAGE_KEY, String(Date.now()));
+      }
+    }).catch(error => {
+      console.error(error);
+      onErrorRef.current(describeStorageError(error));
+      // Re-read so the screen matches what was actually stored.
+      reload();
+    });
+  }, [profileId, applyEntries, reload]);
+
+  return [entries, setLog, ready];
+}
+
+export default useLogStore;
@@ -0,0 +1,55 @@
+import { useState, useCallback } from 'react';
+import { Profile } from '../types';
+import useLocalStorage from './useLocalStorage';
+import { deleteProfileData } from '../utils/logDb';
+import { ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID, PROFILES_KEY, loadProfiles, removeProfileStorage, sanitizeProfiles } from '../utils/profiles';
+import { readItem } from '../utils/sealedStorage';
+import { createEntryId } from '../utils/schema';
+
+export interface ProfilesState {
+  profiles: Profile[];
+  activeProfile: Profile;
+  switchProfile: (profileId: string) => void;
+  addProfile: (name: string) => void;
+  renameProfile: (profileId: string, name: string) => void;
+  // Only profiles other than the open one can be deleted; rejects if the stored data could not be removed.
+  deleteProfile: (profile: Profile) => Promise<void>;
+}
+
+/**
+ * The profiles kept on this device and which one is open. The first call migrates the
+ * pre-profile settings into a default profile (see loadProfiles).
+ */
+function useProfiles(): ProfilesState {
+  // Runs the migration before useLocalStorage reads the list below.
+  const [initialProfiles] = useState<Profile[]>(() => loadProfiles(readItem(PROFILES_KEY)));
+  const [storedProfiles, setProfiles] = useLocalStorage<Profile[]>(PROFILES_KEY, initialProfiles, { deserialize: sanitizeProfiles });
+  const [activeProfileId, setActiveProfileId] = useLocalStorage<string>(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID);
+
+  const profiles = storedProfiles.length > 0 ? storedProfiles : initialProfiles;
+  // Falls back to the first profile if the open one was deleted, e.g. from another tab.
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+
+  const switchProfile = useCallback((profileId: string) => setActiveProfileId(profileId), [setActiveProfileId]);
+
+  const addProfile = useCallback((name: string) => {
+    const profile: Profile = { id: createEntryId(), name };
+    setProfiles(current => [...current, profile]);
+    setActiveProfileId(profile.id);
+  }, [setProfiles, setActiveProfileId]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    setProfiles(current => current.map(profile => profile.id === profileId ? { ...profile, name } : profile));
+  }, [setProfiles]);
+
+  const deleteProfile = useCallback(async (deleted: Profile) => {
+    if (deleted.id === activeProfile.id) return;
+    setProfiles(current => current.filter(profile => profile.id !== deleted.id));
+    removeProfileStorage(deleted.id);
+    await deleteProfileData(deleted.id);
+  }, [activeProfile, setProfiles]);
+
+  return { profiles, activeProfile, switchProfile, addProfile, renameProfile, deleteProfile };
+}
+
+export default useProfiles;
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Profile, ReminderSettings } from '../types';
+import { getLastVoidTimestamp, getSetting, putSetting } from '../utils/logDb';
+import { getLocale, t } from '../i18n';
+import { reminderSettingsKey } from '../utils/profiles';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_TAG_PREFIX,
+  ScheduledReminder,
+  TIMER_HORIZON_MS,
+  TRIGGER_HORIZON_MS,
+  reminderMessage,
+  reminderTag,
+  upcomingReminders,
+} from '../utils/reminders';
+
+// Notification Triggers (Chromium only) and notification actions are missing from the DOM typings.
+declare class TimestampTrigger {
+  constructor(timestamp: number);
+}
+
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+  showTrigger?: TimestampTrigger;
+  renotify?: boolean;
+}
+
+const supportsTriggers = () => typeof window !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const showReminder = (registration: ServiceWorkerRegistration, profile: Profile, reminder: ScheduledReminder, settings: ReminderSettings, scheduled: boolean) => {
+  const options: ReminderNotificationOptions = {
+    body: reminderMessage(reminder, settings),
+    tag: reminderTag(profile.id, reminder),
+    // The service worker records an entry when the "log" action is tapped, without opening the app.
+    actions: [{ action: 'log', title: t('reminder.logNow') }],
+    // The profile id tells the service worker whose log the entry goes into; the texts are the
+    // ones it shows afterwards, already in the user's language.
+    data: {
+      kind: reminder.kind,
+      profileId: profile.id,
+      text: {
+        logNow: t('reminder.logNow'),
+        logged: t('toast.saved'),
+        timed: t('reminder.timed'),
+        inactivity: reminderMessage({ kind: 'inactivity', timestamp: reminder.timestamp }, settings),
+      },
+    },
+  };
+  if (scheduled) {
+    options.showTrigger = new TimestampTrigger(reminder.timestamp);
+  }
+  return registration.showNotification(`${t('app.title')} · ${profile.name}`, options);
+};
+
+interface ProfileSchedule {
+  profile: Profile;
+  settings: ReminderSettings;
+  reminders: ScheduledReminder[];
+}
+
+/**
+ * Reminder settings of the open profile (kept in IndexedDB so the service worker can read
+ * them) and the notification schedule of every profile that has reminders on, so a caregiver
+ * gets them for everyone they look after. Where Notification Triggers are supported the
+ * reminders are handed to the browser and fire even with the app closed; elsewhere they
+ * are shown from timers while the app stays open.
+ */
+function useReminders(profile: Profile, profiles: Profile[], lastLogTimestamp: number | null, onError: (message: string) => void): [ReminderSettings, (settings: ReminderSettings) => Promise<void>] {
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  // Scheduled notifications carry their text, so they are rebuilt when the language changes.
+  const locale = getLocale();
+
+  useEffect(() => {
+    getSetting<ReminderSettings>(reminderSettingsKey(profile.id))
+      .then(stored => setSettings(stored ? { ...DEFAULT_REMINDER_SETTINGS, ...stored } : DEFAULT_REMINDER_SETTINGS))
+      .catch(error => console.error(error));
+  }, [profile.id]);
+
+  const saveSettings = useCallback(async (next: ReminderSettings) => {
+    setSettings(next);
+    try {
+      await putSetting(reminderSettingsKey(profile.id), next);
+    } catch (error) {
+      console.error(error);
+      onError(t('toast.remindersFailed'));
+    }
+  }, [profile.id, onError]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('Notification' in window)) return;
+
+    let cancelled = false;
+    let timers: number[] = [];
+
+    // The open profile's settings and latest void are already at hand; the others are read back.
+    const scheduleFor = async (target: Profile, horizonMs: number): Promise<ProfileSchedule> => {
+      const now = Date.now();
+      if (target.id === profile.id) {
+        return { profile: target, settings, reminders: upcomingReminders(settings, lastLogTimestamp, now, horizonMs) };
+      }
+      try {
+        const stored = await getSetting<ReminderSettings>(reminderSettingsKey(target.id));
+        const targetSettings = stored ? { ...DEFAULT_REMINDER_SETTINGS, ...stored } : DEFAULT_REMINDER_SETTINGS;
+        const lastTimestamp = targetSettings.inactivityEnabled ? await getLastVoidTimestamp(target.id) : null;
+        return { profile: target, settings: targetSettings, reminders: upcomingReminders(targetSettings, lastTimestamp, now, horizonMs) };
+      } catch (error) {
+        console.error(error);
+        return { profile: target, settings: DEFAULT_REMINDER_SETTINGS, reminders: [] };
+      }
+    };
+
+    navigator.serviceWorker.ready.then(async registration => {
+      const triggers = supportsTriggers();
+      const schedules = Notification.permission === 'granted'
+        ? await Promise.all(profiles.map(target => scheduleFor(target, triggers ? TRIGGER_HORIZON_MS : TIMER_HORIZON_MS)))
+        : [];
+      if (triggers) {
+        // Replace every pending reminder; the schedule depends on the latest entry.
+        const pending = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+        pending.filter(notification => notification.tag.startsWith(REMINDER_TAG_PREFIX)).forEach(notification => notification.close());
+        if (cancelled) return;
+        await Promise.all(schedules.flatMap(schedule =>
+          schedule.reminders.map(reminder => showReminder(registration, schedule.profile, reminder, schedule.settings, true))));
+      } else if (!cancelled) {
+        timers = schedules.flatMap(schedule => schedule.reminders.map(reminder => window.setTimeout(() => {
+          showReminder(registration, schedule.profile, reminder, schedule.settings, false).catch(error => console.error(error));
+        }, reminder.timestamp - Date.now())));
+      }
+    }).catch(error => console.error(error));
+
+    return () => {
+      cancelled = true;
+      timers.forEach(timer => window.clearTimeout(timer));
+    };
+  }, [profile, profiles, settings, lastLogTimestamp, locale]);
+
+  return [settings, saveSettings];
+}
+
+export default useReminders;
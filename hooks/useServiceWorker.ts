@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+/**
+ * Registers the service worker and reports when a new version is installed and waiting.
+ * The waiting worker is only activated when `applyUpdate` is called, after which the page
+ * reloads onto the new version.
+ */
+function useServiceWorker(): [boolean, () => void] {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const updateRequested = useRef(false);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        // An installed worker while another one controls the page is an update, not the first install.
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    const onControllerChange = () => {
+      if (updateRequested.current) {
+        window.location.reload();
+      }
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+      if (registration.installing) {
+        trackInstalling(registration.installing);
+      }
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) {
+          trackInstalling(registration.installing);
+        }
+      });
+    }, err => {
+      console.log('ServiceWorker registration failed: ', err);
+    });
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    updateRequested.current = true;
+    waitingWorker.postMessage('skipWaiting');
+  }, [waitingWorker]);
+
+  return [waitingWorker !== null, applyUpdate];
+}
+
+export default useServiceWorker;
@@ -0,0 +1,387 @@
+import { Messages } from './es';
+
+const en: Messages = {
+    'app.title': 'Voiding Diary',
+    'app.description': 'Log each void with a single tap and share the bladder diary with your doctor.',
+
+    'urgency.none': 'No urgency',
+    'urgency.mild': 'Mild',
+    'urgency.moderate': 'Moderate',
+    'urgency.strong': 'Strong',
+    'urgency.leak': 'With leakage',
+
+    'beverage.water': 'Water',
+    'beverage.coffee': 'Coffee',
+    'beverage.tea': 'Tea',
+    'beverage.juice': 'Juice',
+    'beverage.soda': 'Soft drink',
+    'beverage.milk': 'Milk',
+    'beverage.alcohol': 'Alcohol',
+    'beverage.other': 'Other',
+
+    'glucoseTag.fasting': 'Fasting',
+    'glucoseTag.preMeal': 'Before a meal',
+    'glucoseTag.postMeal': 'After a meal',
+
+    'medicationCategory.diuretic': 'Diuretic',
+    'medicationCategory.sglt2': 'SGLT2 inhibitor',
+    'medicationCategory.insulin': 'Insulin',
+    'medicationCategory.other': 'Other',
+
+    'details.medication': 'Medication: {name}',
+    'details.glucose': 'Glucose: {value}',
+    'details.beverage': 'Drink: {beverage}',
+    'details.unspecified': 'Not specified',
+    'details.urgency': 'Urgency: {urgency}',
+    'details.leakage': 'Leakage',
+    'details.timeLabel': 'Time:',
+
+    'common.close': 'Close',
+    'common.undo': 'Undo',
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+    'common.add': 'Add',
+    'common.delete': 'Delete',
+
+    'list.empty': 'No entries yet.',
+    'list.emptyHint': 'Press the \'+\' button to start.',
+    'list.emptyRange': 'No entries in these dates.',
+
+    'toast.enableNotifications': 'Allow notifications in your browser to get reminders.',
+    'toast.installed': 'App installed! Find it on your home screen.',
+    'toast.doubleTap': 'That was logged a moment ago.',
+    'toast.addAnyway': 'Add anyway',
+    'toast.saved': 'Entry saved!',
+    'toast.intakeSaved': 'Drink logged.',
+    'toast.glucoseSaved': 'Glucose logged.',
+    'toast.doseSaved': 'Dose logged.',
+    'toast.entryAdded': 'Entry added.',
+    'toast.detailsSaved': 'Details saved.',
+    'toast.entryUpdated': 'Entry updated.',
+    'toast.entryDeleted': 'Entry deleted.',
+    'toast.nothingToCopy': 'Nothing to copy.',
+    'toast.copied': 'Copied to clipboard!',
+    'toast.copyFailed': 'Could not copy.',
+    'toast.logCleared': 'Diary cleared.',
+    'toast.profileDeleted': 'Profile "{name}" deleted.',
+    'toast.profileDeleteFailed': 'The profile\'s entries could not be deleted.',
+    'toast.imported': '{count, plural, one {# entry imported.} other {# entries imported.}}',
+    'toast.lockEnabled': 'Lock turned on. Entries are stored encrypted.',
+    'toast.lockDisabled': 'Lock turned off.',
+    'toast.settingFailed': 'The setting could not be saved.',
+    'toast.remindersFailed': 'The reminders could not be saved.',
+
+    'confirm.clearLog': 'Are you sure you want to delete all of {name}\'s entries? This cannot be undone.',
+
+    'header.profile': 'Profile',
+    'header.listView': 'List view',
+    'header.chartView': 'Chart view',
+    'header.statsView': 'Statistics view',
+    'header.report': 'Report for your doctor',
+    'header.copy': 'Copy entries',
+    'header.clear': 'Delete entries',
+    'header.transfer': 'Export or import entries',
+    'header.medications': 'Medication',
+    'header.lock': 'Lock',
+    'header.profiles': 'Profiles',
+    'header.settings': 'Settings',
+    'header.install': 'Install app',
+
+    'period.week': 'Week',
+    'period.month': 'Month',
+    'period.all': 'All',
+    'period.custom': 'Dates',
+    'period.previous': 'Previous period',
+    'period.next': 'Next period',
+    'period.invertedRange': 'The start date can\'t be after the end date.',
+
+    'chartMode.daily': 'Per day',
+    'chartMode.fluid': 'Frequency-volume',
+    'chartMode.hourly': 'Per hour',
+    'chartMode.glucose': 'Glucose',
+    'chartMode.calendar': 'Calendar',
+
+    'fab.pastEntry': 'Add an earlier entry',
+    'fab.intake': 'Log a drink',
+    'fab.glucose': 'Log glucose',
+    'fab.void': 'Log a void',
+
+    'update.available': 'A new version is available.',
+    'update.reload': 'Reload',
+
+    'reminder.timed': 'Time to go to the toilet, following your voiding schedule.',
+    'reminder.inactivity': '{hours, plural, one {You haven\'t logged a void in # hour.} other {You haven\'t logged a void in # hours.}}',
+    'reminder.logNow': 'Log now',
+
+    'storage.quota': 'Storage is full. Export your entries and free up space to keep saving.',
+    'storage.writeFailed': 'The entry could not be saved on this device.',
+    'storage.unavailable': 'Storage is not available. Changes will not be saved.',
+    'storage.newerVersion': 'There is data saved by a newer version of the app. It has been left untouched: update the app to see it.',
+
+    'backup.wrongPassphrase': 'Wrong password or damaged file.',
+
+    'import.csvMissingTimestamp': 'The CSV file has no "timestamp" column.',
+    'import.jsonNoEntries': 'The JSON file contains no entries.',
+    'import.invalidJson': 'The file is not valid JSON.',
+    'import.newerVersion': 'The file was created by a newer version of the app.',
+    'import.readFailed': 'The file could not be read.',
+
+    'profiles.defaultName': 'Main',
+    'profiles.title': 'Profiles',
+    'profiles.intro': 'Each profile has its own log, settings, medications and reminders. Useful if you care for several people or share the device.',
+    'profiles.current': '(current)',
+    'profiles.rename': 'Rename {name}',
+    'profiles.delete': 'Delete {name}',
+    'profiles.deleteActiveHint': 'Switch to another profile to delete this one',
+    'profiles.confirmDelete': 'Delete the profile "{name}" and all of its entries and settings? This cannot be undone. Export its data first if you need it.',
+    'profiles.newName': 'New name',
+    'profiles.add': 'Add profile',
+    'profiles.namePlaceholder': 'e.g. Mum',
+
+    'settings.title': 'Settings',
+    'settings.dayStart': 'Start of day',
+    'settings.dayStartHint': 'Entries before this time count towards the previous day. Use your wake-up time for a "wake to wake" diary.',
+    'settings.sleepStart': 'Bedtime',
+    'settings.sleepStartHint': 'Start of the night-time period (nocturia).',
+    'settings.sleepEnd': 'Wake-up time',
+    'settings.sleepEndHint': 'End of the night-time period.',
+    'settings.reminders': 'Reminders',
+    'settings.timedVoiding': 'Timed voiding',
+    'settings.timedVoidingHint': 'Reminds you at a fixed interval from the end of the quiet hours, as in a bladder retraining programme.',
+    'settings.inactivity': 'Inactivity reminder',
+    'settings.inactivityHint': 'Reminds you when this long passes without any entry.',
+    'settings.every': 'every',
+    'settings.hoursUnit': 'h',
+    'settings.quietStart': 'Quiet from',
+    'settings.quietEnd': 'Quiet until',
+    'settings.quietHint': 'No reminders are sent during the quiet hours. You can log a void from the notification without opening the app.',
+    'settings.privacy': 'Privacy',
+    'settings.lock': 'PIN lock and encryption',
+    'settings.on': 'On',
+    'settings.off': 'Off',
+    'settings.display': 'Language and format',
+    'settings.language': 'Language',
+    'settings.timeFormat': 'Time format',
+    'settings.timeFormatAuto': 'Language default',
+    'settings.timeFormat12': '12-hour (1:30 pm)',
+    'settings.timeFormat24': '24-hour (13:30)',
+    'settings.thresholds': 'Clinical thresholds',
+    'settings.thresholdsHint': 'Days above them are flagged in the list, the chart and the report. Agree on them with your doctor and leave a field empty to turn that limit off.',
+    'settings.maxVoidsPerDay': 'Max voids per day',
+    'settings.maxNightVoids': 'Max night voids',
+    'settings.maxOutput': 'Max daily output ({unit})',
+    'settings.largeButtons': 'Large-button screen',
+    'settings.largeButtonsHint': 'Just two buttons that fill the screen, so an entry takes one tap. Settings stay behind the button in the corner.',
+
+    'lock.title': 'PIN lock',
+    'lock.passphrase': 'PIN or password',
+    'lock.currentPassphrase': 'Current PIN or password',
+    'lock.repeatPassphrase': 'Repeat the PIN or password',
+    'lock.wrongPassphrase': 'Wrong PIN or password.',
+    'lock.confirmReset': 'Without the PIN or password the entries cannot be decrypted. Delete all of the app\'s data on this device and start over?',
+    'lock.unlock': 'Unlock',
+    'lock.unlocking': 'Unlocking…',
+    'lock.forgot': 'Forgot your PIN?',
+    'lock.tooShort': 'Use at least {count} characters.',
+    'lock.mismatch': 'The two PINs don\'t match.',
+    'lock.enableFailed': 'The lock could not be turned on.',
+    'lock.disableFailed': 'The lock could not be turned off.',
+    'lock.autoLock': 'Lock after',
+    'lock.autoLockMinutes': '{count, plural, one {# minute without using the app} other {# minutes without using the app}}',
+    'lock.enabledInfo': 'The lock is on and entries are stored encrypted on this device.',
+    'lock.disableTitle': 'Turn off the lock',
+    'lock.disable': 'Turn off and decrypt',
+    'lock.intro': 'Asks for a PIN or password to open the app and stores entries encrypted. If you forget it they cannot be recovered: save an encrypted backup from Export first.',
+    'lock.encrypting': 'Encrypting…',
+    'lock.enable': 'Turn on lock',
+    'lock.notEncrypted': 'Profiles, medications, alert thresholds and the day schedule are encrypted too. Only the language, the units, the reminder times and the time of each entry stay unencrypted on this device.',
+
+    'medications.title': 'Medications',
+    'medications.intro': 'Add the medications that can affect voiding (diuretics, SGLT2 inhibitors, insulin…) to log doses.',
+    'medications.since': 'since {date}',
+    'medications.dose': 'Dose',
+    'medications.edit': 'Edit {name}',
+    'medications.remove': 'Remove {name}',
+    'medications.confirmRemove': 'Remove "{name}" from the list? Doses already logged are kept.',
+    'medications.editTitle': 'Edit medication',
+    'medications.addTitle': 'Add medication',
+    'medications.name': 'Name',
+    'medications.namePlaceholder': 'e.g. Empagliflozin',
+    'medications.category': 'Type',
+    'medications.usualDose': 'Usual dose',
+    'medications.dosePlaceholder': 'e.g. 10 mg',
+    'medications.startDay': 'Started or last changed',
+    'medications.startDayHint': 'Used to compare voiding frequency before and after.',
+
+    'sheet.addDetails': 'Add details',
+    'sheet.editEntry': 'Edit entry',
+    'sheet.pastEntry': 'Past entry',
+    'sheet.addIntake': 'Add drink',
+    'sheet.editIntake': 'Edit drink',
+    'sheet.addGlucose': 'Add glucose',
+    'sheet.editGlucose': 'Edit glucose',
+    'sheet.addDose': 'Log dose',
+    'sheet.editDose': 'Edit dose',
+    'sheet.invalidDate': 'Enter a valid date and time.',
+    'sheet.futureDate': 'The date cannot be in the future.',
+    'sheet.glucoseRequired': 'Enter the glucose value.',
+    'sheet.intakeRequired': 'Enter how much you drank.',
+    'sheet.quickSubtitle': 'Entry saved · details optional',
+    'sheet.dateTime': 'Date and time',
+    'sheet.dose': 'Dose',
+    'sheet.glucose': 'Glucose',
+    'sheet.glucoseTag': 'Timing',
+    'sheet.amount': 'Amount',
+    'sheet.volume': 'Volume',
+    'sheet.beverage': 'Drink',
+    'sheet.urgency': 'Urgency',
+    'sheet.leakage': 'Leakage / incontinence',
+    'sheet.note': 'Note',
+    'sheet.delete': 'Delete entry',
+    'sheet.skip': 'Skip',
+
+    'transfer.title': 'Export / Import',
+    'transfer.export': 'Export',
+    'transfer.from': 'From',
+    'transfer.to': 'To',
+    'transfer.rangeCount': '{count, plural, one {# entry in the range.} other {# entries in the range.}}',
+    'transfer.download': 'Download {format}',
+    'transfer.encryptedIntro': 'Encrypted backup: it only opens with the password you choose, which is not stored anywhere.',
+    'transfer.passphrase': 'Password',
+    'transfer.repeatPassphrase': 'Repeat it',
+    'transfer.passphraseMismatch': 'The passwords don\'t match.',
+    'transfer.downloadEncrypted': 'Download encrypted backup',
+    'transfer.import': 'Import',
+    'transfer.importIntro': 'Restores a CSV or JSON file, or an encrypted backup, exported from this app. Repeated entries are skipped.',
+    'transfer.backupPassphrase': 'Backup password',
+    'transfer.decrypt': 'Decrypt',
+    'transfer.new': 'New:',
+    'transfer.duplicates': 'Duplicates (skipped):',
+    'transfer.invalid': 'Invalid rows:',
+    'transfer.nothingToImport': 'Nothing to import',
+    'transfer.importCount': 'Import {count}',
+    'transfer.fhirIntro': 'For your clinic\'s records system: an HL7 FHIR R4 bundle with each void and a summary per day.',
+    'transfer.downloadFhir': 'Download FHIR',
+    'transfer.shareFhir': 'Share FHIR',
+    'transfer.shareFailed': 'The file could not be shared.',
+    'transfer.exportFailed': 'The encrypted backup could not be created.',
+
+    'report.patient': 'Patient',
+    'report.patientPlaceholder': 'Full name',
+    'report.print': 'Print / PDF',
+    'report.close': 'Close report',
+    'report.title': 'Bladder diary',
+    'report.period': 'Period',
+    'report.dayCount': '{count, plural, one {# day} other {# days}}',
+    'report.nightWindow': 'Night-time',
+    'report.generated': 'Generated',
+    'report.summary': 'Summary',
+    'report.voids': 'Voids',
+    'report.perDay': '{value} / day',
+    'report.dayNight': 'Day / night',
+    'report.nocturiaPerNight': 'Nocturia: {value} / night',
+    'report.meanInterval': 'Mean waking interval',
+    'report.longestInterval': 'Longest interval',
+    'report.totalVolume': 'Total volume',
+    'report.measuredOf': '{measured} of {total} measured',
+    'report.meanVolume': 'Mean volume',
+    'report.leaks': 'Leaks',
+    'report.intake': 'Fluid intake',
+    'report.voidsPerDay': 'Voids per day',
+    'report.dailyDetail': 'Daily detail',
+    'report.date': 'Date',
+    'report.total': 'Total',
+    'report.day': 'Day',
+    'report.night': 'Night',
+    'report.intakeColumn': 'Intake',
+    'report.times': 'Times',
+    'report.leakFootnote': 'With leakage / incontinence.',
+    'report.thresholds': 'Thresholds',
+    'report.flaggedFootnote': 'Day above one of the thresholds.',
+
+    'trend.up': 'Rising',
+    'trend.down': 'Falling',
+    'trend.flat': 'Stable',
+
+    'stats.sparkline': '7-day rolling average over time.',
+    'stats.empty': 'No data in this period.',
+    'stats.meanOver': '{count, plural, one {average over # day} other {average over # days}}',
+    'stats.median': 'Median',
+    'stats.min': 'Minimum',
+    'stats.max': 'Maximum',
+    'stats.interval': 'Time between voids',
+    'stats.meanInterval': 'mean waking interval',
+    'stats.longest': 'Longest',
+    'stats.dayAndNight': 'Day and night',
+    'stats.dayPerDay': 'Daytime per day',
+    'stats.nightPerNight': 'Night-time per night',
+    'stats.dayNightTotal': 'Total day / night',
+    'stats.nightWindow': 'Night: {from} – {to}',
+    'stats.rollingAverage': '7-day rolling average',
+    'stats.previousWeek': '{value} in the previous 7 days',
+    'stats.noPreviousWeek': 'No previous 7 days to compare with yet',
+    'stats.streak': 'Streak',
+    'stats.streakHint': 'in a row with entries',
+
+    'comparison.noEntries': 'No entries',
+    'comparison.title': 'Before and after the medication',
+    'comparison.medication': 'Medication',
+    'comparison.referenceDay': 'Start or change date',
+    'comparison.windowDays': 'Days to compare',
+    'comparison.before': 'Before',
+    'comparison.after': 'After',
+    'comparison.change': 'Change in frequency:',
+    'comparison.needsEntries': 'Entries before and after the date are needed to compare.',
+
+    'timeOfDay.everyDay': 'Every day, {hours}',
+    'timeOfDay.heatmapTitle': 'Day of week × hour',
+    'timeOfDay.heatmapLabel': 'Heat map of voids by day of week and hour.',
+    'timeOfDay.histogramTitle': 'Distribution by hour',
+    'timeOfDay.histogramLabel': 'Histogram of voids by hour of day.',
+
+    'chart.empty': 'There is no data to chart.',
+    'chart.emptyHint': 'Change the period or press \'+\' to log.',
+    'chart.times': '{count, plural, one {# time} other {# times}}',
+    'chart.dailyLabel': 'Bar chart of voids per day.',
+    'chart.meanGlucoseValue': 'mean glucose {value}',
+    'chart.meanGlucoseAxis': 'Mean glucose ({unit}, right axis)',
+    'chart.dose': 'Medication dose',
+    'chart.fluidLabel': 'Frequency-volume chart: fluid intake, voided volume and number of voids per day.',
+    'chart.fluidDay': '{intake} drunk, {output} voided, {count, plural, one {# void} other {# voids}}',
+    'chart.output': 'Voided volume',
+    'chart.voidsAxis': 'Voids (right axis)',
+
+    'correlation.describe': '{strength, select, weak {Weak} moderate {Moderate} other {Strong}} relationship: {direction, select, more {days with higher glucose tend to have more voids} other {days with higher glucose tend to have fewer voids}}.',
+    'correlation.empty': 'No glucose readings in this period.',
+    'correlation.emptyHint': 'Log your readings with the glucose button.',
+    'correlation.title': 'Voids against mean glucose, per day',
+    'correlation.chartLabel': 'Scatter plot of daily void count against the day\'s mean glucose.',
+    'correlation.axis': 'Mean glucose ({unit})',
+    'correlation.voidCount': '{count, plural, one {# void} other {# voids}}',
+    'correlation.coefficient': 'Correlation coefficient:',
+    'correlation.needsDays': 'At least three days with readings are needed to calculate the correlation.',
+    'correlation.disclaimer': 'For guidance only: discuss it with your endocrinologist; correlation does not imply causation.',
+    'correlation.meanGlucose': 'Mean glucose',
+    'correlation.readings': 'Readings',
+
+    'thresholds.voids': '{value} voids (limit {limit})',
+    'thresholds.night': '{value} at night (limit {limit})',
+    'thresholds.output': '{value} output (limit {limit})',
+    'thresholds.limitVoids': 'more than {limit} voids per day',
+    'thresholds.limitNight': 'more than {limit} at night',
+    'thresholds.limitOutput': 'more than {limit} output',
+    'thresholds.flagged': 'Above thresholds',
+    'thresholds.alertTitle': 'Your average over the last {count, plural, one {# day} other {# days}} is above your thresholds',
+    'thresholds.alertAdvice': 'If it continues, call your doctor.',
+    'thresholds.dismiss': 'Dismiss alert',
+
+    'calendar.label': 'Voids per day in {month}',
+    'calendar.day': '{date}: {count, plural, =0 {no voids} one {# void} other {# voids}}',
+
+    'largeButtons.logVoid': 'Log void',
+    'largeButtons.logIntake': 'Log drink',
+    'largeButtons.today': '{count, plural, =0 {Today: no voids} one {Today: # void} other {Today: # voids}}',
+    'largeButtons.last': 'last at {time}',
+};
+
+export default en;
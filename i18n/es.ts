@@ -0,0 +1,390 @@
+// Spanish, the app's original language: every message key is defined here and the
+// other catalogs must translate all of them.
+const es = {
+    'app.title': 'Registro de Micción',
+    'app.description': 'Registra cada micción con un toque y comparte el diario miccional con tu médico.',
+
+    'urgency.none': 'Sin urgencia',
+    'urgency.mild': 'Leve',
+    'urgency.moderate': 'Moderada',
+    'urgency.strong': 'Intensa',
+    'urgency.leak': 'Con escape',
+
+    'beverage.water': 'Agua',
+    'beverage.coffee': 'Café',
+    'beverage.tea': 'Té',
+    'beverage.juice': 'Zumo',
+    'beverage.soda': 'Refresco',
+    'beverage.milk': 'Leche',
+    'beverage.alcohol': 'Alcohol',
+    'beverage.other': 'Otra',
+
+    'glucoseTag.fasting': 'En ayunas',
+    'glucoseTag.preMeal': 'Antes de comer',
+    'glucoseTag.postMeal': 'Después de comer',
+
+    'medicationCategory.diuretic': 'Diurético',
+    'medicationCategory.sglt2': 'Inhibidor SGLT2',
+    'medicationCategory.insulin': 'Insulina',
+    'medicationCategory.other': 'Otro',
+
+    'details.medication': 'Medicación: {name}',
+    'details.glucose': 'Glucosa: {value}',
+    'details.beverage': 'Bebida: {beverage}',
+    'details.unspecified': 'Sin especificar',
+    'details.urgency': 'Urgencia: {urgency}',
+    'details.leakage': 'Escape',
+    'details.timeLabel': 'Hora:',
+
+    'common.close': 'Cerrar',
+    'common.undo': 'Deshacer',
+    'common.cancel': 'Cancelar',
+    'common.save': 'Guardar',
+    'common.add': 'Añadir',
+    'common.delete': 'Eliminar',
+
+    'list.empty': 'No hay registros todavía.',
+    'list.emptyHint': 'Presiona el botón \'+\' para empezar.',
+    'list.emptyRange': 'No hay registros en estas fechas.',
+
+    'toast.enableNotifications': 'Activa las notificaciones en el navegador para recibir recordatorios.',
+    'toast.installed': '¡App instalada! Búscala en tu pantalla de inicio.',
+    'toast.doubleTap': 'Ya se registró hace un momento.',
+    'toast.addAnyway': 'Añadir igual',
+    'toast.saved': '¡Registro guardado!',
+    'toast.intakeSaved': 'Bebida registrada.',
+    'toast.glucoseSaved': 'Glucosa registrada.',
+    'toast.doseSaved': 'Toma registrada.',
+    'toast.entryAdded': 'Registro añadido.',
+    'toast.detailsSaved': 'Detalles guardados.',
+    'toast.entryUpdated': 'Registro actualizado.',
+    'toast.entryDeleted': 'Registro eliminado.',
+    'toast.nothingToCopy': 'No hay nada que copiar.',
+    'toast.copied': '¡Copiado al portapapeles!',
+    'toast.copyFailed': 'Error al copiar.',
+    'toast.logCleared': 'Registro borrado.',
+    'toast.profileDeleted': 'Perfil "{name}" eliminado.',
+    'toast.profileDeleteFailed': 'No se pudieron borrar los registros del perfil.',
+    'toast.imported': '{count, plural, one {# registro importado.} other {# registros importados.}}',
+    'toast.lockEnabled': 'Bloqueo activado. Los registros se guardan cifrados.',
+    'toast.lockDisabled': 'Bloqueo desactivado.',
+    'toast.settingFailed': 'No se pudo guardar el ajuste.',
+    'toast.remindersFailed': 'No se pudieron guardar los recordatorios.',
+
+    'confirm.clearLog': '¿Estás seguro de que quieres borrar todos los registros de {name}? Esta acción no se puede deshacer.',
+
+    'header.profile': 'Perfil',
+    'header.listView': 'Vista de lista',
+    'header.chartView': 'Vista de gráfico',
+    'header.statsView': 'Vista de estadísticas',
+    'header.report': 'Informe para el médico',
+    'header.copy': 'Copiar registros',
+    'header.clear': 'Borrar registros',
+    'header.transfer': 'Exportar o importar registros',
+    'header.medications': 'Medicación',
+    'header.lock': 'Bloquear',
+    'header.profiles': 'Perfiles',
+    'header.settings': 'Ajustes',
+    'header.install': 'Instalar aplicación',
+
+    'period.week': 'Semana',
+    'period.month': 'Mes',
+    'period.all': 'Todos',
+    'period.custom': 'Fechas',
+    'period.previous': 'Periodo anterior',
+    'period.next': 'Periodo siguiente',
+    'period.invertedRange': 'La fecha de inicio no puede ser posterior a la de fin.',
+
+    'chartMode.daily': 'Por día',
+    'chartMode.fluid': 'Frecuencia-volumen',
+    'chartMode.hourly': 'Por hora',
+    'chartMode.glucose': 'Glucosa',
+    'chartMode.calendar': 'Calendario',
+
+    'fab.pastEntry': 'Añadir registro anterior',
+    'fab.intake': 'Registrar bebida',
+    'fab.glucose': 'Registrar glucosa',
+    'fab.void': 'Añadir registro de micción',
+
+    'update.available': 'Hay una nueva versión disponible.',
+    'update.reload': 'Recargar',
+
+    'reminder.timed': 'Es hora de ir al baño según tu horario de micción.',
+    'reminder.inactivity': '{hours, plural, one {No has registrado ninguna micción en # hora.} other {No has registrado ninguna micción en # horas.}}',
+    'reminder.logNow': 'Registrar ahora',
+
+    'storage.quota': 'No queda espacio de almacenamiento. Exporta y libera espacio para seguir guardando.',
+    'storage.writeFailed': 'No se pudo guardar el registro en este dispositivo.',
+    'storage.unavailable': 'No se puede acceder al almacenamiento. Los cambios no se guardarán.',
+    'storage.newerVersion': 'Hay datos guardados por una versión más reciente de la aplicación. No se han modificado: actualiza la aplicación para verlos.',
+
+    'backup.wrongPassphrase': 'Contraseña incorrecta o archivo dañado.',
+
+    'import.csvMissingTimestamp': 'El archivo CSV no tiene una columna "timestamp".',
+    'import.jsonNoEntries': 'El archivo JSON no contiene registros.',
+    'import.invalidJson': 'El archivo no es un JSON válido.',
+    'import.newerVersion': 'El archivo se creó con una versión más reciente de la aplicación.',
+    'import.readFailed': 'No se pudo leer el archivo.',
+
+    'profiles.defaultName': 'Principal',
+    'profiles.title': 'Perfiles',
+    'profiles.intro': 'Cada perfil tiene su propio registro, ajustes, medicación y recordatorios. Útil si cuidas de varias personas o compartes el dispositivo.',
+    'profiles.current': '(actual)',
+    'profiles.rename': 'Renombrar {name}',
+    'profiles.delete': 'Eliminar {name}',
+    'profiles.deleteActiveHint': 'Cambia a otro perfil para eliminar este',
+    'profiles.confirmDelete': '¿Eliminar el perfil "{name}" y todos sus registros y ajustes? Esta acción no se puede deshacer. Exporta antes sus datos si los necesitas.',
+    'profiles.newName': 'Nuevo nombre',
+    'profiles.add': 'Añadir perfil',
+    'profiles.namePlaceholder': 'p. ej. Mamá',
+
+    'settings.title': 'Ajustes',
+    'settings.dayStart': 'Inicio del día',
+    'settings.dayStartHint': 'Los registros anteriores a esta hora cuentan para el día anterior. Usa tu hora de levantarte para un diario "de despertar a despertar".',
+    'settings.sleepStart': 'Hora de acostarse',
+    'settings.sleepStartHint': 'Inicio del periodo nocturno (nocturia).',
+    'settings.sleepEnd': 'Hora de levantarse',
+    'settings.sleepEndHint': 'Fin del periodo nocturno.',
+    'settings.reminders': 'Recordatorios',
+    'settings.timedVoiding': 'Micción programada',
+    'settings.timedVoidingHint': 'Avisa cada cierto tiempo desde la hora de fin del silencio, como en un programa de reentrenamiento vesical.',
+    'settings.inactivity': 'Aviso de inactividad',
+    'settings.inactivityHint': 'Avisa si pasa este tiempo sin ningún registro.',
+    'settings.every': 'cada',
+    'settings.hoursUnit': 'h',
+    'settings.quietStart': 'Silencio desde',
+    'settings.quietEnd': 'Silencio hasta',
+    'settings.quietHint': 'Durante las horas de silencio no se envían avisos. Desde la notificación puedes registrar una micción sin abrir la aplicación.',
+    'settings.privacy': 'Privacidad',
+    'settings.lock': 'Bloqueo con PIN y cifrado',
+    'settings.on': 'Activado',
+    'settings.off': 'Desactivado',
+    'settings.display': 'Idioma y formato',
+    'settings.language': 'Idioma',
+    'settings.timeFormat': 'Formato de hora',
+    'settings.timeFormatAuto': 'Según el idioma',
+    'settings.timeFormat12': '12 horas (1:30 p. m.)',
+    'settings.timeFormat24': '24 horas (13:30)',
+    'settings.thresholds': 'Umbrales clínicos',
+    'settings.thresholdsHint': 'Los días que los superen se marcan en la lista, el gráfico y el informe. Acuérdalos con tu médico y deja un campo vacío para no usar ese límite.',
+    'settings.maxVoidsPerDay': 'Máx. micciones al día',
+    'settings.maxNightVoids': 'Máx. micciones nocturnas',
+    'settings.maxOutput': 'Máx. diuresis al día ({unit})',
+    'settings.largeButtons': 'Pantalla de botones grandes',
+    'settings.largeButtonsHint': 'Solo dos botones que ocupan toda la pantalla, para registrar con un toque. Los ajustes siguen en el botón de la esquina.',
+
+    'lock.title': 'Bloqueo con PIN',
+    'lock.passphrase': 'PIN o contraseña',
+    'lock.currentPassphrase': 'PIN o contraseña actual',
+    'lock.repeatPassphrase': 'Repite el PIN o la contraseña',
+    'lock.wrongPassphrase': 'PIN o contraseña incorrectos.',
+    'lock.confirmReset': 'Sin el PIN o la contraseña no se pueden descifrar los registros. ¿Borrar todos los datos de la aplicación en este dispositivo y empezar de nuevo?',
+    'lock.unlock': 'Desbloquear',
+    'lock.unlocking': 'Desbloqueando…',
+    'lock.forgot': '¿Has olvidado el PIN?',
+    'lock.tooShort': 'Usa al menos {count} caracteres.',
+    'lock.mismatch': 'Los dos PIN no coinciden.',
+    'lock.enableFailed': 'No se pudo activar el bloqueo.',
+    'lock.disableFailed': 'No se pudo desactivar el bloqueo.',
+    'lock.autoLock': 'Bloquear tras',
+    'lock.autoLockMinutes': '{count, plural, one {# minuto sin usar la app} other {# minutos sin usar la app}}',
+    'lock.enabledInfo': 'El bloqueo está activado y los registros se guardan cifrados en este dispositivo.',
+    'lock.disableTitle': 'Desactivar el bloqueo',
+    'lock.disable': 'Desactivar y descifrar',
+    'lock.intro': 'Pide un PIN o una contraseña para abrir la aplicación y guarda los registros cifrados. Si lo olvidas no se podrán recuperar: guarda antes una copia cifrada desde Exportar.',
+    'lock.encrypting': 'Cifrando…',
+    'lock.enable': 'Activar bloqueo',
+    'lock.notEncrypted': 'Los perfiles, la medicación, los umbrales de aviso y el horario del día también se cifran. Solo el idioma, las unidades, los horarios de los recordatorios y la hora de cada registro siguen sin cifrar en este dispositivo.',
+
+    'medications.title': 'Medicación',
+    'medications.intro': 'Añade los medicamentos que pueden influir en la micción (diuréticos, inhibidores SGLT2, insulina…) para registrar las tomas.',
+    'medications.since': 'desde {date}',
+    'medications.dose': 'Toma',
+    'medications.edit': 'Editar {name}',
+    'medications.remove': 'Quitar {name}',
+    'medications.confirmRemove': '¿Quitar "{name}" de la lista? Las tomas ya registradas se conservan.',
+    'medications.editTitle': 'Editar medicamento',
+    'medications.addTitle': 'Añadir medicamento',
+    'medications.name': 'Nombre',
+    'medications.namePlaceholder': 'p. ej. Empagliflozina',
+    'medications.category': 'Tipo',
+    'medications.usualDose': 'Dosis habitual',
+    'medications.dosePlaceholder': 'p. ej. 10 mg',
+    'medications.startDay': 'Inicio o último cambio',
+    'medications.startDayHint': 'Se usa para comparar la frecuencia de micción antes y después.',
+
+    'sheet.addDetails': 'Añadir detalles',
+    'sheet.editEntry': 'Editar registro',
+    'sheet.pastEntry': 'Registro anterior',
+    'sheet.addIntake': 'Añadir bebida',
+    'sheet.editIntake': 'Editar bebida',
+    'sheet.addGlucose': 'Añadir glucosa',
+    'sheet.editGlucose': 'Editar glucosa',
+    'sheet.addDose': 'Registrar toma',
+    'sheet.editDose': 'Editar toma',
+    'sheet.invalidDate': 'Introduce una fecha y hora válidas.',
+    'sheet.futureDate': 'La fecha no puede estar en el futuro.',
+    'sheet.glucoseRequired': 'Introduce el valor de glucosa.',
+    'sheet.intakeRequired': 'Introduce la cantidad que has bebido.',
+    'sheet.quickSubtitle': 'Registro guardado · detalles opcionales',
+    'sheet.dateTime': 'Fecha y hora',
+    'sheet.dose': 'Dosis',
+    'sheet.glucose': 'Glucosa',
+    'sheet.glucoseTag': 'Momento',
+    'sheet.amount': 'Cantidad',
+    'sheet.volume': 'Volumen',
+    'sheet.beverage': 'Bebida',
+    'sheet.urgency': 'Urgencia',
+    'sheet.leakage': 'Hubo escape / incontinencia',
+    'sheet.note': 'Nota',
+    'sheet.delete': 'Eliminar registro',
+    'sheet.skip': 'Omitir',
+
+    'transfer.title': 'Exportar / Importar',
+    'transfer.export': 'Exportar',
+    'transfer.from': 'Desde',
+    'transfer.to': 'Hasta',
+    'transfer.rangeCount': '{count, plural, one {# registro en el rango.} other {# registros en el rango.}}',
+    'transfer.download': 'Descargar {format}',
+    'transfer.encryptedIntro': 'Copia cifrada: solo se puede abrir con la contraseña que elijas, que no se guarda en ningún sitio.',
+    'transfer.passphrase': 'Contraseña',
+    'transfer.repeatPassphrase': 'Repítela',
+    'transfer.passphraseMismatch': 'Las contraseñas no coinciden.',
+    'transfer.downloadEncrypted': 'Descargar copia cifrada',
+    'transfer.import': 'Importar',
+    'transfer.importIntro': 'Restaura un archivo CSV o JSON, o una copia cifrada, exportado desde esta aplicación. Los registros repetidos se omiten.',
+    'transfer.backupPassphrase': 'Contraseña de la copia',
+    'transfer.decrypt': 'Descifrar',
+    'transfer.new': 'Nuevos:',
+    'transfer.duplicates': 'Duplicados (se omiten):',
+    'transfer.invalid': 'Filas no válidas:',
+    'transfer.nothingToImport': 'Nada que importar',
+    'transfer.importCount': 'Importar {count}',
+    'transfer.fhirIntro': 'Para el sistema informático de la consulta: un paquete HL7 FHIR R4 con cada micción y un resumen por día.',
+    'transfer.downloadFhir': 'Descargar FHIR',
+    'transfer.shareFhir': 'Compartir FHIR',
+    'transfer.shareFailed': 'No se ha podido compartir el archivo.',
+    'transfer.exportFailed': 'No se pudo crear la copia cifrada.',
+
+    'report.patient': 'Paciente',
+    'report.patientPlaceholder': 'Nombre y apellidos',
+    'report.print': 'Imprimir / PDF',
+    'report.close': 'Cerrar informe',
+    'report.title': 'Diario miccional',
+    'report.period': 'Periodo',
+    'report.dayCount': '{count, plural, one {# día} other {# días}}',
+    'report.nightWindow': 'Horario nocturno',
+    'report.generated': 'Generado',
+    'report.summary': 'Resumen',
+    'report.voids': 'Micciones',
+    'report.perDay': '{value} / día',
+    'report.dayNight': 'Diurnas / nocturnas',
+    'report.nocturiaPerNight': 'Nocturia: {value} / noche',
+    'report.meanInterval': 'Intervalo medio despierto',
+    'report.longestInterval': 'Intervalo más largo',
+    'report.totalVolume': 'Volumen total',
+    'report.measuredOf': '{measured} de {total} medidas',
+    'report.meanVolume': 'Volumen medio',
+    'report.leaks': 'Escapes',
+    'report.intake': 'Líquidos ingeridos',
+    'report.voidsPerDay': 'Micciones por día',
+    'report.dailyDetail': 'Detalle diario',
+    'report.date': 'Fecha',
+    'report.total': 'Total',
+    'report.day': 'Día',
+    'report.night': 'Noche',
+    'report.intakeColumn': 'Ingesta',
+    'report.times': 'Horas',
+    'report.leakFootnote': 'Con escape / incontinencia.',
+    'report.thresholds': 'Umbrales',
+    'report.flaggedFootnote': 'Día por encima de alguno de los umbrales.',
+
+    'trend.up': 'Sube',
+    'trend.down': 'Baja',
+    'trend.flat': 'Estable',
+
+    'stats.sparkline': 'Evolución de la media móvil de 7 días.',
+    'stats.empty': 'No hay datos en este período.',
+    'stats.meanOver': '{count, plural, one {media en # día} other {media en # días}}',
+    'stats.median': 'Mediana',
+    'stats.min': 'Mínimo',
+    'stats.max': 'Máximo',
+    'stats.interval': 'Intervalo entre micciones',
+    'stats.meanInterval': 'intervalo medio despierto',
+    'stats.longest': 'Más largo',
+    'stats.dayAndNight': 'Día y noche',
+    'stats.dayPerDay': 'Diurnas por día',
+    'stats.nightPerNight': 'Nocturnas por noche',
+    'stats.dayNightTotal': 'Total diurnas / nocturnas',
+    'stats.nightWindow': 'Noche: {from} – {to}',
+    'stats.rollingAverage': 'Media móvil de 7 días',
+    'stats.previousWeek': '{value} los 7 días anteriores',
+    'stats.noPreviousWeek': 'Aún no hay 7 días anteriores para comparar',
+    'stats.streak': 'Racha',
+    'stats.streakHint': 'seguidos con registros',
+
+    'comparison.noEntries': 'Sin registros',
+    'comparison.title': 'Antes y después de la medicación',
+    'comparison.medication': 'Medicamento',
+    'comparison.referenceDay': 'Fecha de inicio o cambio',
+    'comparison.windowDays': 'Días a comparar',
+    'comparison.before': 'Antes',
+    'comparison.after': 'Después',
+    'comparison.change': 'Cambio en la frecuencia:',
+    'comparison.needsEntries': 'Hacen falta registros antes y después de la fecha para comparar.',
+
+    'timeOfDay.everyDay': 'Todos los días, {hours}',
+    'timeOfDay.heatmapTitle': 'Día de la semana × hora',
+    'timeOfDay.heatmapLabel': 'Mapa de calor de micciones por día de la semana y hora.',
+    'timeOfDay.histogramTitle': 'Distribución por hora',
+    'timeOfDay.histogramLabel': 'Histograma de micciones por hora del día.',
+
+    'chart.empty': 'No hay datos para mostrar en el gráfico.',
+    'chart.emptyHint': 'Ajusta el período o presiona \'+\' para registrar.',
+    'chart.times': '{count, plural, one {# vez} other {# veces}}',
+    'chart.dailyLabel': 'Gráfico de barras de registros de micción por día.',
+    'chart.meanGlucoseValue': 'glucosa media {value}',
+    'chart.meanGlucoseAxis': 'Glucosa media ({unit}, eje derecho)',
+    'chart.dose': 'Toma de medicación',
+    'chart.fluidLabel': 'Gráfico de frecuencia y volumen: líquidos ingeridos, volumen orinado y número de micciones por día.',
+    'chart.fluidDay': '{intake} bebidos, {output} orinados, {count, plural, one {# micción} other {# micciones}}',
+    'chart.output': 'Volumen orinado',
+    'chart.voidsAxis': 'Micciones (eje derecho)',
+
+    'correlation.describe': 'Relación {strength, select, weak {débil} moderate {moderada} other {fuerte}}: {direction, select, more {los días con la glucosa más alta tienden a tener más micciones} other {los días con la glucosa más alta tienden a tener menos micciones}}.',
+    'correlation.empty': 'No hay lecturas de glucosa en este período.',
+    'correlation.emptyHint': 'Registra tus mediciones con el botón de glucosa.',
+    'correlation.title': 'Micciones frente a glucosa media, por día',
+    'correlation.chartLabel': 'Diagrama de dispersión del número de micciones diarias frente a la glucosa media del día.',
+    'correlation.axis': 'Glucosa media ({unit})',
+    'correlation.voidCount': '{count, plural, one {# micción} other {# micciones}}',
+    'correlation.coefficient': 'Coeficiente de correlación:',
+    'correlation.needsDays': 'Hacen falta al menos tres días con lecturas para calcular la correlación.',
+    'correlation.disclaimer': 'Orientativo: coméntalo con tu endocrino; una correlación no indica causa.',
+    'correlation.meanGlucose': 'Glucosa media',
+    'correlation.readings': 'Lecturas',
+
+    'thresholds.voids': '{value} micciones (límite {limit})',
+    'thresholds.night': '{value} nocturnas (límite {limit})',
+    'thresholds.output': '{value} de diuresis (límite {limit})',
+    'thresholds.limitVoids': 'más de {limit} micciones al día',
+    'thresholds.limitNight': 'más de {limit} nocturnas',
+    'thresholds.limitOutput': 'más de {limit} de diuresis',
+    'thresholds.flagged': 'Por encima de los umbrales',
+    'thresholds.alertTitle': 'La media de los últimos {count, plural, one {# día} other {# días}} supera tus umbrales',
+    'thresholds.alertAdvice': 'Si se mantiene, llama a tu médico.',
+    'thresholds.dismiss': 'Ocultar aviso',
+
+    'calendar.label': 'Micciones por día de {month}',
+    'calendar.day': '{date}: {count, plural, =0 {sin micciones} one {# micción} other {# micciones}}',
+
+    'largeButtons.logVoid': 'Registrar micción',
+    'largeButtons.logIntake': 'Registrar bebida',
+    'largeButtons.today': '{count, plural, =0 {Hoy: ninguna micción} one {Hoy: # micción} other {Hoy: # micciones}}',
+    'largeButtons.last': 'última a las {time}',
+};
+
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
+
+export default es;
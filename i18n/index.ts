@@ -0,0 +1,139 @@
+import { Locale, TimeFormat } from '../types';
+import es, { MessageKey, Messages } from './es';
+import en from './en';
+import pt from './pt';
+
+/*
+ * Translation layer. Messages use a subset of ICU MessageFormat: `{name}` arguments,
+ * `{count, plural, =0 {…} one {# …} other {# …}}` and `{name, select, a {…} other {…}}`.
+ * The active language is module state so that helpers outside React (formatting, reminders,
+ * exports) translate too; App sets it before rendering and re-renders the tree on change.
+ */
+
+export type { MessageKey };
+export type MessageValues = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { es, en, pt };
+
+export const LOCALES: { locale: Locale; name: string }[] = [
+    { locale: 'es', name: 'Español' },
+    { locale: 'en', name: 'English' },
+    { locale: 'pt', name: 'Português' },
+];
+
+// Region used for dates and numbers when the browser's own locale is in another language.
+const DEFAULT_REGIONS: Record<Locale, string> = {
+    es: 'es-ES',
+    en: 'en-GB',
+    pt: 'pt-PT',
+};
+
+const isLocale = (value: string): value is Locale => value in CATALOGS;
+
+/** First browser language the app has a catalog for; Spanish otherwise. */
+export const detectLocale = (): Locale => {
+    const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+    for (const language of languages) {
+        const primary = language.toLowerCase().split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return 'es';
+};
+
+let activeLocale: Locale = detectLocale();
+let activeTimeFormat: TimeFormat = 'auto';
+
+export const getLocale = (): Locale => activeLocale;
+
+export const setActiveLocale = (locale: Locale, timeFormat: TimeFormat) => {
+    activeLocale = isLocale(locale) ? locale : 'es';
+    activeTimeFormat = timeFormat;
+};
+
+/** BCP 47 tag for Intl: the browser's regional variant when it speaks the selected language. */
+export const intlLocale = (): string => {
+    const browser = typeof navigator === 'undefined' ? undefined : navigator.language;
+    if (browser && browser.toLowerCase().split('-')[0] === activeLocale && browser.includes('-')) {
+        return browser;
+    }
+    return DEFAULT_REGIONS[activeLocale];
+};
+
+/** Intl options for the chosen 12/24-hour clock; empty to follow the locale. */
+export const hourCycleOptions = (): Intl.DateTimeFormatOptions => {
+    if (activeTimeFormat === '12h') return { hour12: true };
+    if (activeTimeFormat === '24h') return { hourCycle: 'h23' };
+    return {};
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string => {
+    return new Intl.NumberFormat(intlLocale(), options).format(value);
+};
+
+// Index of the brace that closes the one at `start`.
+const closingBrace = (text: string, start: number): number => {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        if (text[i] === '}' && --depth === 0) return i;
+    }
+    throw new Error(`Unbalanced braces in message: ${text}`);
+};
+
+// "=0 {…} one {…} other {…}" → { '=0': '…', one: '…', other: '…' }
+const parseOptions = (text: string): Record<string, string> => {
+    const options: Record<string, string> = {};
+    let i = 0;
+    while (i < text.length) {
+        const open = text.indexOf('{', i);
+        if (open === -1) break;
+        const selector = text.slice(i, open).trim();
+        const close = closingBrace(text, open);
+        options[selector] = text.slice(open + 1, close);
+        i = close + 1;
+    }
+    return options;
+};
+
+const formatArgument = (body: string, values: MessageValues): string => {
+    const firstComma = body.indexOf(',');
+    const name = (firstComma === -1 ? body : body.slice(0, firstComma)).trim();
+    const value = values[name];
+    if (firstComma === -1) {
+        if (value === undefined) return `{${name}}`;
+        return typeof value === 'number' ? formatNumber(value) : value;
+    }
+    const secondComma = body.indexOf(',', firstComma + 1);
+    const type = body.slice(firstComma + 1, secondComma).trim();
+    const options = parseOptions(body.slice(secondComma + 1));
+
+    if (type === 'plural') {
+        const count = Number(value);
+        const category = new Intl.PluralRules(intlLocale()).select(count);
+        const chosen = options[`=${count}`] ?? options[category] ?? options.other ?? '';
+        return formatMessage(chosen.replace(/#/g, formatNumber(count)), values);
+    }
+    // select
+    return formatMessage(options[String(value)] ?? options.other ?? '', values);
+};
+
+export const formatMessage = (message: string, values: MessageValues = {}): string => {
+    let result = '';
+    let i = 0;
+    while (i < message.length) {
+        const open = message.indexOf('{', i);
+        if (open === -1) {
+            result += message.slice(i);
+            break;
+        }
+        const close = closingBrace(message, open);
+        result += message.slice(i, open) + formatArgument(message.slice(open + 1, close), values);
+        i = close + 1;
+    }
+    return result;
+};
+
+/** The message in the active language, falling back to Spanish. */
+export const t = (key: MessageKey, values?: MessageValues): string => {
+    return formatMessage(CATALOGS[activeLocale][key] ?? es[key], values);
+};
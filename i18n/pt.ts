@@ -0,0 +1,387 @@
+import { Messages } from './es';
+
+const pt: Messages = {
+    'app.title': 'Diário Miccional',
+    'app.description': 'Registe cada micção com um toque e partilhe o diário miccional com o seu médico.',
+
+    'urgency.none': 'Sem urgência',
+    'urgency.mild': 'Ligeira',
+    'urgency.moderate': 'Moderada',
+    'urgency.strong': 'Intensa',
+    'urgency.leak': 'Com perda',
+
+    'beverage.water': 'Água',
+    'beverage.coffee': 'Café',
+    'beverage.tea': 'Chá',
+    'beverage.juice': 'Sumo',
+    'beverage.soda': 'Refrigerante',
+    'beverage.milk': 'Leite',
+    'beverage.alcohol': 'Álcool',
+    'beverage.other': 'Outra',
+
+    'glucoseTag.fasting': 'Em jejum',
+    'glucoseTag.preMeal': 'Antes da refeição',
+    'glucoseTag.postMeal': 'Depois da refeição',
+
+    'medicationCategory.diuretic': 'Diurético',
+    'medicationCategory.sglt2': 'Inibidor SGLT2',
+    'medicationCategory.insulin': 'Insulina',
+    'medicationCategory.other': 'Outro',
+
+    'details.medication': 'Medicação: {name}',
+    'details.glucose': 'Glicemia: {value}',
+    'details.beverage': 'Bebida: {beverage}',
+    'details.unspecified': 'Não especificada',
+    'details.urgency': 'Urgência: {urgency}',
+    'details.leakage': 'Perda',
+    'details.timeLabel': 'Hora:',
+
+    'common.close': 'Fechar',
+    'common.undo': 'Anular',
+    'common.cancel': 'Cancelar',
+    'common.save': 'Guardar',
+    'common.add': 'Adicionar',
+    'common.delete': 'Eliminar',
+
+    'list.empty': 'Ainda não há registos.',
+    'list.emptyHint': 'Prima o botão \'+\' para começar.',
+    'list.emptyRange': 'Não há registos nestas datas.',
+
+    'toast.enableNotifications': 'Ative as notificações no navegador para receber lembretes.',
+    'toast.installed': 'App instalada! Procure-a no ecrã principal.',
+    'toast.doubleTap': 'Já foi registado há um momento.',
+    'toast.addAnyway': 'Adicionar mesmo assim',
+    'toast.saved': 'Registo guardado!',
+    'toast.intakeSaved': 'Bebida registada.',
+    'toast.glucoseSaved': 'Glicemia registada.',
+    'toast.doseSaved': 'Toma registada.',
+    'toast.entryAdded': 'Registo adicionado.',
+    'toast.detailsSaved': 'Detalhes guardados.',
+    'toast.entryUpdated': 'Registo atualizado.',
+    'toast.entryDeleted': 'Registo eliminado.',
+    'toast.nothingToCopy': 'Não há nada para copiar.',
+    'toast.copied': 'Copiado para a área de transferência!',
+    'toast.copyFailed': 'Erro ao copiar.',
+    'toast.logCleared': 'Diário apagado.',
+    'toast.profileDeleted': 'Perfil "{name}" eliminado.',
+    'toast.profileDeleteFailed': 'Não foi possível apagar os registos do perfil.',
+    'toast.imported': '{count, plural, one {# registo importado.} other {# registos importados.}}',
+    'toast.lockEnabled': 'Bloqueio ativado. Os registos são guardados cifrados.',
+    'toast.lockDisabled': 'Bloqueio desativado.',
+    'toast.settingFailed': 'Não foi possível guardar a definição.',
+    'toast.remindersFailed': 'Não foi possível guardar os lembretes.',
+
+    'confirm.clearLog': 'Tem a certeza de que quer apagar todos os registos de {name}? Esta ação não pode ser anulada.',
+
+    'header.profile': 'Perfil',
+    'header.listView': 'Vista de lista',
+    'header.chartView': 'Vista de gráfico',
+    'header.statsView': 'Vista de estatísticas',
+    'header.report': 'Relatório para o médico',
+    'header.copy': 'Copiar registos',
+    'header.clear': 'Apagar registos',
+    'header.transfer': 'Exportar ou importar registos',
+    'header.medications': 'Medicação',
+    'header.lock': 'Bloquear',
+    'header.profiles': 'Perfis',
+    'header.settings': 'Definições',
+    'header.install': 'Instalar aplicação',
+
+    'period.week': 'Semana',
+    'period.month': 'Mês',
+    'period.all': 'Todos',
+    'period.custom': 'Datas',
+    'period.previous': 'Período anterior',
+    'period.next': 'Período seguinte',
+    'period.invertedRange': 'A data de início não pode ser posterior à de fim.',
+
+    'chartMode.daily': 'Por dia',
+    'chartMode.fluid': 'Frequência-volume',
+    'chartMode.hourly': 'Por hora',
+    'chartMode.glucose': 'Glicemia',
+    'chartMode.calendar': 'Calendário',
+
+    'fab.pastEntry': 'Adicionar registo anterior',
+    'fab.intake': 'Registar bebida',
+    'fab.glucose': 'Registar glicemia',
+    'fab.void': 'Registar micção',
+
+    'update.available': 'Há uma nova versão disponível.',
+    'update.reload': 'Recarregar',
+
+    'reminder.timed': 'Está na hora de ir à casa de banho, segundo o seu horário miccional.',
+    'reminder.inactivity': '{hours, plural, one {Não registou nenhuma micção em # hora.} other {Não registou nenhuma micção em # horas.}}',
+    'reminder.logNow': 'Registar agora',
+
+    'storage.quota': 'Não há espaço de armazenamento. Exporte e liberte espaço para continuar a guardar.',
+    'storage.writeFailed': 'Não foi possível guardar o registo neste dispositivo.',
+    'storage.unavailable': 'Não é possível aceder ao armazenamento. As alterações não serão guardadas.',
+    'storage.newerVersion': 'Há dados guardados por uma versão mais recente da aplicação. Não foram alterados: atualize a aplicação para os ver.',
+
+    'backup.wrongPassphrase': 'Palavra-passe errada ou ficheiro danificado.',
+
+    'import.csvMissingTimestamp': 'O ficheiro CSV não tem uma coluna "timestamp".',
+    'import.jsonNoEntries': 'O ficheiro JSON não contém registos.',
+    'import.invalidJson': 'O ficheiro não é um JSON válido.',
+    'import.newerVersion': 'O ficheiro foi criado por uma versão mais recente da aplicação.',
+    'import.readFailed': 'Não foi possível ler o ficheiro.',
+
+    'profiles.defaultName': 'Principal',
+    'profiles.title': 'Perfis',
+    'profiles.intro': 'Cada perfil tem o seu próprio registo, definições, medicação e lembretes. Útil se cuida de várias pessoas ou partilha o dispositivo.',
+    'profiles.current': '(atual)',
+    'profiles.rename': 'Mudar o nome de {name}',
+    'profiles.delete': 'Eliminar {name}',
+    'profiles.deleteActiveHint': 'Mude para outro perfil para eliminar este',
+    'profiles.confirmDelete': 'Eliminar o perfil "{name}" e todos os seus registos e definições? Esta ação não pode ser anulada. Exporte antes os dados se precisar deles.',
+    'profiles.newName': 'Novo nome',
+    'profiles.add': 'Adicionar perfil',
+    'profiles.namePlaceholder': 'p. ex. Mãe',
+
+    'settings.title': 'Definições',
+    'settings.dayStart': 'Início do dia',
+    'settings.dayStartHint': 'Os registos anteriores a esta hora contam para o dia anterior. Use a hora a que se levanta para um diário "de despertar a despertar".',
+    'settings.sleepStart': 'Hora de deitar',
+    'settings.sleepStartHint': 'Início do período noturno (noctúria).',
+    'settings.sleepEnd': 'Hora de levantar',
+    'settings.sleepEndHint': 'Fim do período noturno.',
+    'settings.reminders': 'Lembretes',
+    'settings.timedVoiding': 'Micção programada',
+    'settings.timedVoidingHint': 'Avisa a cada intervalo desde o fim das horas de silêncio, como num programa de reeducação vesical.',
+    'settings.inactivity': 'Aviso de inatividade',
+    'settings.inactivityHint': 'Avisa se passar este tempo sem nenhum registo.',
+    'settings.every': 'a cada',
+    'settings.hoursUnit': 'h',
+    'settings.quietStart': 'Silêncio desde',
+    'settings.quietEnd': 'Silêncio até',
+    'settings.quietHint': 'Durante as horas de silêncio não são enviados avisos. A partir da notificação pode registar uma micção sem abrir a aplicação.',
+    'settings.privacy': 'Privacidade',
+    'settings.lock': 'Bloqueio com PIN e cifra',
+    'settings.on': 'Ativado',
+    'settings.off': 'Desativado',
+    'settings.display': 'Idioma e formato',
+    'settings.language': 'Idioma',
+    'settings.timeFormat': 'Formato da hora',
+    'settings.timeFormatAuto': 'Conforme o idioma',
+    'settings.timeFormat12': '12 horas (1:30 da tarde)',
+    'settings.timeFormat24': '24 horas (13:30)',
+    'settings.thresholds': 'Limites clínicos',
+    'settings.thresholdsHint': 'Os dias que os ultrapassem são assinalados na lista, no gráfico e no relatório. Combine-os com o seu médico e deixe um campo vazio para não usar esse limite.',
+    'settings.maxVoidsPerDay': 'Máx. micções por dia',
+    'settings.maxNightVoids': 'Máx. micções noturnas',
+    'settings.maxOutput': 'Máx. diurese por dia ({unit})',
+    'settings.largeButtons': 'Ecrã de botões grandes',
+    'settings.largeButtonsHint': 'Apenas dois botões que ocupam todo o ecrã, para registar com um toque. As definições continuam no botão do canto.',
+
+    'lock.title': 'Bloqueio com PIN',
+    'lock.passphrase': 'PIN ou palavra-passe',
+    'lock.currentPassphrase': 'PIN ou palavra-passe atual',
+    'lock.repeatPassphrase': 'Repita o PIN ou a palavra-passe',
+    'lock.wrongPassphrase': 'PIN ou palavra-passe incorretos.',
+    'lock.confirmReset': 'Sem o PIN ou a palavra-passe não é possível decifrar os registos. Apagar todos os dados da aplicação neste dispositivo e começar de novo?',
+    'lock.unlock': 'Desbloquear',
+    'lock.unlocking': 'A desbloquear…',
+    'lock.forgot': 'Esqueceu-se do PIN?',
+    'lock.tooShort': 'Use pelo menos {count} caracteres.',
+    'lock.mismatch': 'Os dois PIN não coincidem.',
+    'lock.enableFailed': 'Não foi possível ativar o bloqueio.',
+    'lock.disableFailed': 'Não foi possível desativar o bloqueio.',
+    'lock.autoLock': 'Bloquear após',
+    'lock.autoLockMinutes': '{count, plural, one {# minuto sem usar a aplicação} other {# minutos sem usar a aplicação}}',
+    'lock.enabledInfo': 'O bloqueio está ativado e os registos são guardados cifrados neste dispositivo.',
+    'lock.disableTitle': 'Desativar o bloqueio',
+    'lock.disable': 'Desativar e decifrar',
+    'lock.intro': 'Pede um PIN ou uma palavra-passe para abrir a aplicação e guarda os registos cifrados. Se se esquecer, não será possível recuperá-los: guarde antes uma cópia cifrada em Exportar.',
+    'lock.encrypting': 'A cifrar…',
+    'lock.enable': 'Ativar bloqueio',
+    'lock.notEncrypted': 'Os perfis, a medicação, os limiares de alerta e o horário do dia também são cifrados. Só o idioma, as unidades, os horários dos lembretes e a hora de cada registo continuam sem cifra neste dispositivo.',
+
+    'medications.title': 'Medicação',
+    'medications.intro': 'Adicione os medicamentos que podem influenciar a micção (diuréticos, inibidores SGLT2, insulina…) para registar as tomas.',
+    'medications.since': 'desde {date}',
+    'medications.dose': 'Toma',
+    'medications.edit': 'Editar {name}',
+    'medications.remove': 'Remover {name}',
+    'medications.confirmRemove': 'Remover "{name}" da lista? As tomas já registadas são mantidas.',
+    'medications.editTitle': 'Editar medicamento',
+    'medications.addTitle': 'Adicionar medicamento',
+    'medications.name': 'Nome',
+    'medications.namePlaceholder': 'p. ex. Empagliflozina',
+    'medications.category': 'Tipo',
+    'medications.usualDose': 'Dose habitual',
+    'medications.dosePlaceholder': 'p. ex. 10 mg',
+    'medications.startDay': 'Início ou última alteração',
+    'medications.startDayHint': 'Usado para comparar a frequência miccional antes e depois.',
+
+    'sheet.addDetails': 'Adicionar detalhes',
+    'sheet.editEntry': 'Editar registo',
+    'sheet.pastEntry': 'Registo anterior',
+    'sheet.addIntake': 'Adicionar bebida',
+    'sheet.editIntake': 'Editar bebida',
+    'sheet.addGlucose': 'Adicionar glicemia',
+    'sheet.editGlucose': 'Editar glicemia',
+    'sheet.addDose': 'Registar toma',
+    'sheet.editDose': 'Editar toma',
+    'sheet.invalidDate': 'Introduza uma data e hora válidas.',
+    'sheet.futureDate': 'A data não pode estar no futuro.',
+    'sheet.glucoseRequired': 'Introduza o valor da glicemia.',
+    'sheet.intakeRequired': 'Introduza a quantidade que bebeu.',
+    'sheet.quickSubtitle': 'Registo guardado · detalhes opcionais',
+    'sheet.dateTime': 'Data e hora',
+    'sheet.dose': 'Dose',
+    'sheet.glucose': 'Glicemia',
+    'sheet.glucoseTag': 'Momento',
+    'sheet.amount': 'Quantidade',
+    'sheet.volume': 'Volume',
+    'sheet.beverage': 'Bebida',
+    'sheet.urgency': 'Urgência',
+    'sheet.leakage': 'Houve perda / incontinência',
+    'sheet.note': 'Nota',
+    'sheet.delete': 'Eliminar registo',
+    'sheet.skip': 'Ignorar',
+
+    'transfer.title': 'Exportar / Importar',
+    'transfer.export': 'Exportar',
+    'transfer.from': 'De',
+    'transfer.to': 'Até',
+    'transfer.rangeCount': '{count, plural, one {# registo no intervalo.} other {# registos no intervalo.}}',
+    'transfer.download': 'Descarregar {format}',
+    'transfer.encryptedIntro': 'Cópia cifrada: só pode ser aberta com a palavra-passe que escolher, que não é guardada em lado nenhum.',
+    'transfer.passphrase': 'Palavra-passe',
+    'transfer.repeatPassphrase': 'Repita-a',
+    'transfer.passphraseMismatch': 'As palavras-passe não coincidem.',
+    'transfer.downloadEncrypted': 'Descarregar cópia cifrada',
+    'transfer.import': 'Importar',
+    'transfer.importIntro': 'Restaura um ficheiro CSV ou JSON, ou uma cópia cifrada, exportado desta aplicação. Os registos repetidos são ignorados.',
+    'transfer.backupPassphrase': 'Palavra-passe da cópia',
+    'transfer.decrypt': 'Decifrar',
+    'transfer.new': 'Novos:',
+    'transfer.duplicates': 'Duplicados (ignorados):',
+    'transfer.invalid': 'Linhas inválidas:',
+    'transfer.nothingToImport': 'Nada para importar',
+    'transfer.importCount': 'Importar {count}',
+    'transfer.fhirIntro': 'Para o sistema informático da consulta: um pacote HL7 FHIR R4 com cada micção e um resumo por dia.',
+    'transfer.downloadFhir': 'Descarregar FHIR',
+    'transfer.shareFhir': 'Partilhar FHIR',
+    'transfer.shareFailed': 'Não foi possível partilhar o ficheiro.',
+    'transfer.exportFailed': 'Não foi possível criar a cópia cifrada.',
+
+    'report.patient': 'Doente',
+    'report.patientPlaceholder': 'Nome completo',
+    'report.print': 'Imprimir / PDF',
+    'report.close': 'Fechar relatório',
+    'report.title': 'Diário miccional',
+    'report.period': 'Período',
+    'report.dayCount': '{count, plural, one {# dia} other {# dias}}',
+    'report.nightWindow': 'Horário noturno',
+    'report.generated': 'Gerado',
+    'report.summary': 'Resumo',
+    'report.voids': 'Micções',
+    'report.perDay': '{value} / dia',
+    'report.dayNight': 'Diurnas / noturnas',
+    'report.nocturiaPerNight': 'Noctúria: {value} / noite',
+    'report.meanInterval': 'Intervalo médio acordado',
+    'report.longestInterval': 'Intervalo mais longo',
+    'report.totalVolume': 'Volume total',
+    'report.measuredOf': '{measured} de {total} medidas',
+    'report.meanVolume': 'Volume médio',
+    'report.leaks': 'Perdas',
+    'report.intake': 'Líquidos ingeridos',
+    'report.voidsPerDay': 'Micções por dia',
+    'report.dailyDetail': 'Detalhe diário',
+    'report.date': 'Data',
+    'report.total': 'Total',
+    'report.day': 'Dia',
+    'report.night': 'Noite',
+    'report.intakeColumn': 'Ingestão',
+    'report.times': 'Horas',
+    'report.leakFootnote': 'Com perda / incontinência.',
+    'report.thresholds': 'Limites',
+    'report.flaggedFootnote': 'Dia acima de algum dos limites.',
+
+    'trend.up': 'A subir',
+    'trend.down': 'A descer',
+    'trend.flat': 'Estável',
+
+    'stats.sparkline': 'Evolução da média móvel de 7 dias.',
+    'stats.empty': 'Não há dados neste período.',
+    'stats.meanOver': '{count, plural, one {média em # dia} other {média em # dias}}',
+    'stats.median': 'Mediana',
+    'stats.min': 'Mínimo',
+    'stats.max': 'Máximo',
+    'stats.interval': 'Intervalo entre micções',
+    'stats.meanInterval': 'intervalo médio acordado',
+    'stats.longest': 'Mais longo',
+    'stats.dayAndNight': 'Dia e noite',
+    'stats.dayPerDay': 'Diurnas por dia',
+    'stats.nightPerNight': 'Noturnas por noite',
+    'stats.dayNightTotal': 'Total diurnas / noturnas',
+    'stats.nightWindow': 'Noite: {from} – {to}',
+    'stats.rollingAverage': 'Média móvel de 7 dias',
+    'stats.previousWeek': '{value} nos 7 dias anteriores',
+    'stats.noPreviousWeek': 'Ainda não há 7 dias anteriores para comparar',
+    'stats.streak': 'Sequência',
+    'stats.streakHint': 'seguidos com registos',
+
+    'comparison.noEntries': 'Sem registos',
+    'comparison.title': 'Antes e depois da medicação',
+    'comparison.medication': 'Medicamento',
+    'comparison.referenceDay': 'Data de início ou alteração',
+    'comparison.windowDays': 'Dias a comparar',
+    'comparison.before': 'Antes',
+    'comparison.after': 'Depois',
+    'comparison.change': 'Alteração na frequência:',
+    'comparison.needsEntries': 'São necessários registos antes e depois da data para comparar.',
+
+    'timeOfDay.everyDay': 'Todos os dias, {hours}',
+    'timeOfDay.heatmapTitle': 'Dia da semana × hora',
+    'timeOfDay.heatmapLabel': 'Mapa de calor das micções por dia da semana e hora.',
+    'timeOfDay.histogramTitle': 'Distribuição por hora',
+    'timeOfDay.histogramLabel': 'Histograma das micções por hora do dia.',
+
+    'chart.empty': 'Não há dados para mostrar no gráfico.',
+    'chart.emptyHint': 'Ajuste o período ou prima \'+\' para registar.',
+    'chart.times': '{count, plural, one {# vez} other {# vezes}}',
+    'chart.dailyLabel': 'Gráfico de barras dos registos de micção por dia.',
+    'chart.meanGlucoseValue': 'glicemia média {value}',
+    'chart.meanGlucoseAxis': 'Glicemia média ({unit}, eixo direito)',
+    'chart.dose': 'Toma de medicação',
+    'chart.fluidLabel': 'Gráfico de frequência e volume: líquidos ingeridos, volume urinado e número de micções por dia.',
+    'chart.fluidDay': '{intake} bebidos, {output} urinados, {count, plural, one {# micção} other {# micções}}',
+    'chart.output': 'Volume urinado',
+    'chart.voidsAxis': 'Micções (eixo direito)',
+
+    'correlation.describe': 'Relação {strength, select, weak {fraca} moderate {moderada} other {forte}}: {direction, select, more {os dias com a glicemia mais alta tendem a ter mais micções} other {os dias com a glicemia mais alta tendem a ter menos micções}}.',
+    'correlation.empty': 'Não há leituras de glicemia neste período.',
+    'correlation.emptyHint': 'Registe as suas medições com o botão de glicemia.',
+    'correlation.title': 'Micções face à glicemia média, por dia',
+    'correlation.chartLabel': 'Diagrama de dispersão do número de micções diárias face à glicemia média do dia.',
+    'correlation.axis': 'Glicemia média ({unit})',
+    'correlation.voidCount': '{count, plural, one {# micção} other {# micções}}',
+    'correlation.coefficient': 'Coeficiente de correlação:',
+    'correlation.needsDays': 'São necessários pelo menos três dias com leituras para calcular a correlação.',
+    'correlation.disclaimer': 'Apenas orientativo: fale com o seu endocrinologista; uma correlação não indica causa.',
+    'correlation.meanGlucose': 'Glicemia média',
+    'correlation.readings': 'Leituras',
+
+    'thresholds.voids': '{value} micções (limite {limit})',
+    'thresholds.night': '{value} noturnas (limite {limit})',
+    'thresholds.output': '{value} de diurese (limite {limit})',
+    'thresholds.limitVoids': 'mais de {limit} micções por dia',
+    'thresholds.limitNight': 'mais de {limit} noturnas',
+    'thresholds.limitOutput': 'mais de {limit} de diurese',
+    'thresholds.flagged': 'Acima dos limites',
+    'thresholds.alertTitle': 'A média dos últimos {count, plural, one {# dia} other {# dias}} ultrapassa os seus limites',
+    'thresholds.alertAdvice': 'Se continuar, ligue ao seu médico.',
+    'thresholds.dismiss': 'Ocultar aviso',
+
+    'calendar.label': 'Micções por dia em {month}',
+    'calendar.day': '{date}: {count, plural, =0 {sem micções} one {# micção} other {# micções}}',
+
+    'largeButtons.logVoid': 'Registar micção',
+    'largeButtons.logIntake': 'Registar bebida',
+    'largeButtons.today': '{count, plural, =0 {Hoje: nenhuma micção} one {Hoje: # micção} other {Hoje: # micções}}',
+    'largeButtons.last': 'última às {time}',
+};
+
+export default pt;
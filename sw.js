@@ -1,64 +1,268 @@
 // sw.js
 
-const CACHE_NAME = 'miccion-registro-cache-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  // Es importante no cachear el index.tsx o los scripts de React directamente
-  // si sus nombres no tienen un hash que cambie con las actualizaciones.
-  // Vercel y otros sistemas modernos de build suelen manejar esto.
-  // Por ahora, nos centraremos en cachear el shell de la aplicación.
-];
-
-// Instalar el Service Worker y cachear los recursos principales
+// El build (vite.config.ts) antepone self.__BUILD_MANIFEST con la versión y la lista de
+// archivos generados. En desarrollo no existe: Vite sirve todo y aquí solo se gestionan
+// las notificaciones.
+const BUILD_MANIFEST = self.__BUILD_MANIFEST || null;
+const CACHE_PREFIX = 'miccion-registro-cache-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_MANIFEST ? BUILD_MANIFEST.version : 'dev'}`;
+// Relativo al ámbito del registro, para que funcione también si la app no está en la raíz.
+const APP_SHELL = new URL('index.html', self.registration.scope).href;
+
+// Instalar el Service Worker y cachear todos los recursos del build, para que la app
+// funcione sin conexión desde la primera recarga.
 self.addEventListener('install', (event) => {
+  if (!BUILD_MANIFEST) return;
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Opened cache');
-        return cache.addAll(urlsToCache);
-      })
+    caches.open(CACHE_NAME).then(async (cache) => {
+      await cache.addAll(BUILD_MANIFEST.precache);
+      // Los scripts de otros dominios (CDN) se guardan como respuestas opacas.
+      await Promise.all(BUILD_MANIFEST.external.map(async (url) => {
+        const response = await fetch(new Request(url, { mode: 'no-cors' }));
+        await cache.put(url, response);
+      }));
+    })
   );
-  // Forzar al nuevo service worker a activarse inmediatamente
-  self.skipWaiting(); 
+  // No llamamos a skipWaiting(): la nueva versión espera hasta que el usuario acepte
+  // recargar desde el aviso de la app, para no cambiarla bajo una pestaña abierta.
 });
 
-// Activar el Service Worker y limpiar cachés antiguas
+// La app envía este mensaje cuando el usuario pulsa "Recargar" en el aviso de actualización.
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') {
+    self.skipWaiting();
+  }
+});
+
+// Activar el Service Worker y limpiar las cachés de versiones anteriores
 self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            // Borra las cachés que no coincidan con la versión actual
-            return caches.delete(cacheName);
-          }
-        })
+        cacheNames
+          .filter((cacheName) => cacheName.startsWith(CACHE_PREFIX) && cacheName !== CACHE_NAME)
+          .map((cacheName) => caches.delete(cacheName))
       );
-    })
+    }).then(() => self.clients.claim())
   );
-  // Tomar control de los clientes (pestañas) abiertos inmediatamente
-  return self.clients.claim();
 });
 
-// Interceptar las peticiones de red (Estrategia: Stale-While-Revalidate)
+// Interceptar las peticiones de red (Estrategia: primero la caché, solo para recursos del build)
 self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (!BUILD_MANIFEST || request.method !== 'GET') return;
+
+  // Todas las navegaciones reciben el shell de la app (index.html).
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(APP_SHELL, { cacheName: CACHE_NAME }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  const url = new URL(request.url);
+  const isPrecached = url.origin === self.location.origin
+    ? BUILD_MANIFEST.precache.includes(url.pathname)
+    : BUILD_MANIFEST.external.includes(request.url);
+  // El resto (p. ej. otras peticiones a terceros) va directamente a la red, sin cachear.
+  if (!isPrecached) return;
+
   event.respondWith(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.match(event.request).then((cachedResponse) => {
-        const fetchPromise = fetch(event.request).then((networkResponse) => {
-          // Si la petición fue exitosa, la guardamos en caché para la próxima vez
-          if (networkResponse && networkResponse.status === 200) {
-            cache.put(event.request, networkResponse.clone());
-          }
-          return networkResponse;
-        });
-
-        // Devolvemos la respuesta de la caché inmediatamente si existe,
-        // mientras que en segundo plano actualizamos la caché con la respuesta de la red.
-        return cachedResponse || fetchPromise;
-      });
-    })
+    caches.match(request.url, { cacheName: CACHE_NAME }).then((cached) => cached || fetch(request))
   );
-});
\ No newline at end of file
+});
+
+// --- Recordatorios ---
+// La base de datos la crea la aplicación (utils/logDb.ts); estos nombres deben coincidir.
+const DB_NAME = 'registro-miccion';
+const ENTRIES_STORE = 'entries';
+const SETTINGS_STORE = 'settings';
+const SYNC_CHANNEL = 'registro-miccion-log';
+// Configuración del bloqueo y cola de entradas pendientes de cifrar (LOCK_SETTINGS_KEY y
+// PENDING_ENTRIES_KEY en utils/logDb.ts).
+const LOCK_SETTINGS_KEY = 'lock';
+const PENDING_ENTRIES_KEY = 'pendingEntries';
+// Etiquetas "reminder-<tipo>-<perfil>-<hora>", como reminderTag en utils/reminders.ts.
+const REMINDER_TAG_PREFIX = 'reminder-';
+// Hasta dónde se programan los recordatorios (TRIGGER_HORIZON_MS en utils/reminders.ts).
+const SCHEDULE_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+// Perfil al que pertenecen los datos anteriores a los perfiles (DEFAULT_PROFILE_ID en utils/profiles.ts).
+const DEFAULT_PROFILE_ID = 'default';
+
+const openDb = () => new Promise((resolve, reject) => {
+  // Sin versión: se abre la que haya creado la aplicación. Si aún no existe, no la creamos
+  // aquí, porque la migración inicial (desde localStorage) solo puede hacerla la página.
+  const request = indexedDB.open(DB_NAME);
+  request.onupgradeneeded = () => request.transaction.abort();
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = (db, storeName, mode, work) => new Promise((resolve, reject) => {
+  const transaction = db.transaction(storeName, mode);
+  const request = work(transaction.objectStore(storeName));
+  transaction.oncomplete = () => resolve(request && request.result);
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// Misma lógica que isQuietTime en utils/reminders.ts.
+const isQuietTime = (timestamp, settings) => {
+  const date = new Date(timestamp);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = settings.quietStartMinutes;
+  const end = settings.quietEndMinutes;
+  if (start === end) return false;
+  return start > end ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+};
+
+// Misma lógica que endOfQuietTime en utils/reminders.ts.
+const endOfQuietTime = (timestamp, settings) => {
+  if (!isQuietTime(timestamp, settings)) return timestamp;
+  const date = new Date(timestamp);
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, settings.quietEndMinutes);
+  if (end.getTime() <= timestamp) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end.getTime();
+};
+
+const getReminderSettings = (db, profileId) => runTransaction(db, SETTINGS_STORE, 'readonly', (store) => store.get(`reminders:${profileId}`));
+
+const supportsTriggers = () => 'showTrigger' in Notification.prototype;
+
+// Tras registrar desde una notificación, el aviso de inactividad pendiente queda obsoleto.
+// Si el navegador admite Notification Triggers lo reprogramamos sin esperar a que se abra la app.
+const rescheduleInactivityReminder = async (db, profileId, title, text, lastLogTimestamp) => {
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending
+    .filter((notification) => notification.tag.startsWith(`${REMINDER_TAG_PREFIX}inactivity-${profileId}-`))
+    .forEach((notification) => notification.close());
+
+  const settings = await getReminderSettings(db, profileId);
+  if (!settings || !settings.inactivityEnabled || !supportsTriggers()) return;
+
+  let due = lastLogTimestamp + settings.inactivityMinutes * 60 * 1000;
+  // Avanzamos de 15 en 15 minutos hasta salir de las horas de silencio.
+  while (isQuietTime(due, settings)) {
+    due += 15 * 60 * 1000;
+  }
+  const hours = Math.round(settings.inactivityMinutes / 60 * 10) / 10;
+  await self.registration.showNotification(title, {
+    body: text.inactivity || `No has registrado ninguna micción en ${hours} ${hours === 1 ? 'hora' : 'horas'}.`,
+    tag: `${REMINDER_TAG_PREFIX}inactivity-${profileId}-${due}`,
+    actions: [{ action: 'log', title: text.logNow || 'Registrar ahora' }],
+    data: { kind: 'inactivity', profileId, text },
+    showTrigger: new TimestampTrigger(due),
+  });
+};
+
+// La app programa los recordatorios periódicos solo hasta SCHEDULE_HORIZON_MS y no hay ningún
+// evento cuando el navegador muestra uno. Cada vez que se pulsa o se descarta un recordatorio
+// completamos aquí la programación de ese perfil, para que sigan llegando sin abrir la app.
+// Mismo cálculo que upcomingReminders en utils/reminders.ts.
+const topUpTimedReminders = async (db, profileId, title, text) => {
+  const settings = await getReminderSettings(db, profileId);
+  if (!settings || !settings.timedVoidingEnabled || !(settings.intervalMinutes > 0) || !supportsTriggers()) return;
+
+  const prefix = `${REMINDER_TAG_PREFIX}timed-${profileId}-`;
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  const scheduled = new Set(pending.map((notification) => notification.tag).filter((tag) => tag.startsWith(prefix)));
+
+  const now = Date.now();
+  const horizon = now + SCHEDULE_HORIZON_MS;
+  const intervalMs = settings.intervalMinutes * 60 * 1000;
+  const today = new Date(now);
+  const slot = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1, 0, settings.quietEndMinutes);
+  for (; slot.getTime() < horizon; slot.setMinutes(slot.getMinutes() + settings.intervalMinutes)) {
+    const timestamp = slot.getTime();
+    if (isQuietTime(timestamp, settings)) {
+      slot.setTime(endOfQuietTime(timestamp, settings) - intervalMs);
+      continue;
+    }
+    if (timestamp <= now || scheduled.has(`${prefix}${timestamp}`)) continue;
+    await self.registration.showNotification(title, {
+      body: text.timed || 'Es hora de ir al baño según tu horario de micción.',
+      tag: `${prefix}${timestamp}`,
+      actions: [{ action: 'log', title: text.logNow || 'Registrar ahora' }],
+      data: { kind: 'timed', profileId, text },
+      showTrigger: new TimestampTrigger(timestamp),
+    });
+  }
+};
+
+const topUpFromNotification = async (notification) => {
+  if (!notification.tag.startsWith(REMINDER_TAG_PREFIX)) return;
+  const profileId = (notification.data && notification.data.profileId) || DEFAULT_PROFILE_ID;
+  const db = await openDb();
+  try {
+    await topUpTimedReminders(db, profileId, notification.title, (notification.data && notification.data.text) || {});
+  } finally {
+    db.close();
+  }
+};
+
+// El recordatorio indica en qué perfil se registra; los anteriores a los perfiles van al predeterminado.
+// Aquí no hay clave: con el bloqueo activado la entrada no se guarda en claro en el registro,
+// sino en una cola que la app vacía y cifra en cuanto está desbloqueada.
+// Los textos llegan ya traducidos en la notificación; sin ellos (avisos antiguos) se usa el español.
+const logFromNotification = async (notification) => {
+  const profileId = (notification.data && notification.data.profileId) || DEFAULT_PROFILE_ID;
+  const text = (notification.data && notification.data.text) || {};
+  const db = await openDb();
+  const timestamp = Date.now();
+  const entry = { id: self.crypto.randomUUID(), timestamp };
+  await new Promise((resolve, reject) => {
+    // Una sola transacción, para que el bloqueo no pueda activarse entre la consulta y la escritura.
+    const transaction = db.transaction([ENTRIES_STORE, SETTINGS_STORE], 'readwrite');
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    settings.get(LOCK_SETTINGS_KEY).onsuccess = (event) => {
+      if (!event.target.result) {
+        transaction.objectStore(ENTRIES_STORE).put({ ...entry, profileId });
+        return;
+      }
+      settings.get(PENDING_ENTRIES_KEY).onsuccess = (e) => {
+        settings.put([...(e.target.result || []), { profileId, entry }], PENDING_ENTRIES_KEY);
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // Avisamos a las pestañas abiertas para que recarguen el registro.
+  const channel = new BroadcastChannel(SYNC_CHANNEL);
+  channel.postMessage('changed');
+  channel.close();
+
+  await self.registration.showNotification(notification.title, {
+    body: text.logged || '¡Registro guardado!',
+    tag: 'logged',
+    silent: true,
+  });
+  await rescheduleInactivityReminder(db, profileId, notification.title, text, timestamp);
+  db.close();
+};
+
+const focusOrOpenApp = async () => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    return windows[0].focus();
+  }
+  return self.clients.openWindow(self.registration.scope);
+};
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const topUp = topUpFromNotification(event.notification).catch((error) => console.error(error));
+  if (event.action === 'log') {
+    // Si no se puede escribir (p. ej. la app nunca se abrió), abrimos la app para registrar a mano.
+    event.waitUntil(Promise.all([logFromNotification(event.notification).catch(() => focusOrOpenApp()), topUp]));
+  } else {
+    event.waitUntil(Promise.all([focusOrOpenApp(), topUp]));
+  }
+});
+
+self.addEventListener('notificationclose', (event) => {
+  event.waitUntil(topUpFromNotification(event.notification).catch((error) => console.error(error)));
+});
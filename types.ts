@@ -1,5 +1,120 @@
+// 'week' (Monday to Sunday) and 'month' are calendar periods; 'custom' is a from–to range picked by the user.
+export type ChartPeriod = 'week' | 'month' | 'all' | 'custom';
+
+// The days the list, the charts, copy and export cover.
+export interface PeriodSelection {
+  period: ChartPeriod;
+  // Weeks or months back from the current one: 0 is the current one, -1 the one before.
+  offset: number;
+  // Diary day keys of a custom range, both included.
+  fromKey: string;
+  toKey: string;
+}
+
+// 'fluid' is the frequency-volume view: daily intake against void count and output.
+// 'glucose' compares daily void count with mean blood glucose.
+// 'calendar' is a month grid with the void count of each day.
+export type ChartMode = 'daily' | 'fluid' | 'hourly' | 'glucose' | 'calendar';
+
+export type VolumeUnit = 'ml' | 'oz';
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export type GlucoseTag = 'fasting' | 'preMeal' | 'postMeal';
+
+// 0 = no urgency ... 4 = urge incontinence (PPIUS scale).
+export type UrgencyScore = 0 | 1 | 2 | 3 | 4;
+
+// Entries without a kind are voids, so logs written before drinks were tracked read unchanged.
+export type EntryKind = 'void' | 'intake' | 'glucose' | 'dose';
+
+export type BeverageType = 'water' | 'coffee' | 'tea' | 'juice' | 'soda' | 'milk' | 'alcohol' | 'other';
 
 export interface LogEntry {
-  id: number;
+  id: string;
   timestamp: number;
+  kind?: EntryKind;
+  // Voided volume, or the amount drunk for intake entries; always stored in millilitres regardless of the display unit.
+  volumeMl?: number;
+  // Intake entries only.
+  beverage?: BeverageType;
+  // Glucose entries only; always stored in mg/dL regardless of the display unit.
+  glucoseMgDl?: number;
+  glucoseTag?: GlucoseTag;
+  // Dose entries only. The name is copied from the medication list so the entry stays readable
+  // (and exportable) if the medication is later renamed or removed.
+  medicationId?: string;
+  medicationName?: string;
+  dose?: string;
+  // Void entries only.
+  urgency?: UrgencyScore;
+  leakage?: boolean;
+  note?: string;
+}
+
+// Drug classes that are known to change urination.
+export type MedicationCategory = 'diuretic' | 'sglt2' | 'insulin' | 'other';
+
+export interface Medication {
+  id: string;
+  name: string;
+  category: MedicationCategory;
+  // Usual dose as free text, e.g. "10 mg" or "8 UI"; prefilled when logging a dose.
+  dose?: string;
+  // Day key of when the medication was started or last changed; the before/after comparison centres on it.
+  startDayKey?: string;
+}
+
+export interface DaySettings {
+  // Minutes after local midnight at which a diary day starts, e.g. 420 to count wake-up to wake-up from 07:00.
+  dayStartMinutes: number;
+  // Sleep window in minutes after midnight; it may wrap past midnight (23:00 – 07:00).
+  sleepStartMinutes: number;
+  sleepEndMinutes: number;
+}
+
+export interface ReminderSettings {
+  // Timed voiding: a reminder every `intervalMinutes` outside quiet hours.
+  timedVoidingEnabled: boolean;
+  intervalMinutes: number;
+  // Nudge when nothing has been logged for `inactivityMinutes`.
+  inactivityEnabled: boolean;
+  inactivityMinutes: number;
+  // No reminders between these times (minutes after midnight, may wrap past midnight).
+  quietStartMinutes: number;
+  quietEndMinutes: number;
+}
+
+export interface StoredLog {
+  version: number;
+  entries: LogEntry[];
+}
+
+// One person whose diary is kept on this device; a caregiver may keep several.
+export interface Profile {
+  id: string;
+  name: string;
 }
+
+export type Locale = 'es' | 'en' | 'pt';
+// 'auto' follows the convention of the selected language.
+export type TimeFormat = 'auto' | '12h' | '24h';
+
+// Device-wide: the language follows whoever uses the device, not the profile being viewed.
+export interface DisplaySettings {
+  locale: Locale;
+  timeFormat: TimeFormat;
+  // Simplified screen with two large buttons, for patients who struggle with small targets.
+  largeButtons: boolean;
+}
+
+// Per-profile limits agreed with the clinician; a day above any of them is flagged. null turns a limit off.
+export interface ClinicalThresholds {
+  maxVoidsPerDay: number | null;
+  // Voids during the night that starts on the day (nocturia).
+  maxNightVoids: number | null;
+  // Total measured output, in millilitres.
+  maxOutputMl: number | null;
+}
+
+export type ThresholdKind = 'voids' | 'night' | 'output';
@@ -0,0 +1,133 @@
+import { t } from '../i18n';
+
+// Web Crypto helpers for the app lock and encrypted backups. Keys are derived from the
+// passphrase with PBKDF2 and everything is encrypted with AES-GCM.
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Marks a backup file as encrypted; checked before trying to parse it as a plain export.
+export const ENCRYPTED_BACKUP_FORMAT = 'registro-miccion-cifrado';
+
+/** AES-GCM ciphertext with the IV it was made with, both base64. */
+export interface SealedData {
+    iv: string;
+    data: string;
+}
+
+/** What is stored to recognise the passphrase: the log key, wrapped with a key derived from it. */
+export interface WrappedKey {
+    salt: string;
+    iterations: number;
+    key: SealedData;
+}
+
+interface EncryptedBackup {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    salt: string;
+    iterations: number;
+    payload: SealedData;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    // Built in chunks: spreading a large backup into String.fromCharCode overflows the stack.
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey'],
+    );
+};
+
+export const seal = async (key: CryptoKey, value: unknown): Promise<SealedData> => {
+    const iv = randomBytes(IV_BYTES);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Rejects if the key is wrong or the data was tampered with.
+export const unseal = async <T>(key: CryptoKey, sealed: SealedData): Promise<T> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return JSON.parse(new TextDecoder().decode(data));
+};
+
+/**
+ * Creates a random key for the log and wraps it with the passphrase. Going through a
+ * separate key keeps the passphrase out of memory once the app is unlocked.
+ */
+export const createLogKey = async (passphrase: string): Promise<{ key: CryptoKey; wrapped: WrappedKey }> => {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const salt = randomBytes(SALT_BYTES);
+    const wrappingKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const iv = randomBytes(IV_BYTES);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+    return {
+        key,
+        wrapped: {
+            salt: toBase64(salt),
+            iterations: PBKDF2_ITERATIONS,
+            key: { iv: toBase64(iv), data: toBase64(new Uint8Array(wrappedKey)) },
+        },
+    };
+};
+
+// Rejects when the passphrase is wrong.
+export const unwrapLogKey = async (passphrase: string, wrapped: WrappedKey): Promise<CryptoKey> => {
+    const wrappingKey = await deriveKey(passphrase, fromBase64(wrapped.salt), wrapped.iterations);
+    return crypto.subtle.unwrapKey(
+        'raw',
+        fromBase64(wrapped.key.data),
+        wrappingKey,
+        { name: 'AES-GCM', iv: fromBase64(wrapped.key.iv) },
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const isEncryptedBackup = (text: string): boolean => {
+    try {
+        return JSON.parse(text)?.format === ENCRYPTED_BACKUP_FORMAT;
+    } catch {
+        return false;
+    }
+};
+
+/** Wraps an exported file in an encrypted envelope that only the passphrase opens. */
+export const encryptBackup = async (content: string, passphrase: string): Promise<string> => {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const backup: EncryptedBackup = {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        payload: await seal(key, content),
+    };
+    return JSON.stringify(backup, null, 2);
+};
+
+/** Returns the file that was encrypted. Throws with a user-facing message on a wrong passphrase. */
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+    const backup: EncryptedBackup = JSON.parse(text);
+    const key = await deriveKey(passphrase, fromBase64(backup.salt), backup.iterations);
+    try {
+        return await unseal<string>(key, backup.payload);
+    } catch {
+        throw new Error(t('backup.wrongPassphrase'));
+    }
+};
@@ -0,0 +1,151 @@
+import { DaySettings, PeriodSelection } from '../types';
+
+/*
+ * All grouping of entries by day goes through this module. Days are identified by a
+ * "YYYY-MM-DD" key in local time, and every calculation uses the local Date
+ * constructor (never fixed 24 h offsets or toISOString), so bucketing stays
+ * correct east of UTC and across DST changes.
+ */
+
+export const DEFAULT_DAY_SETTINGS: DaySettings = {
+    dayStartMinutes: 0,
+    sleepStartMinutes: 23 * 60,
+    sleepEndMinutes: 7 * 60,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+const keyOfDate = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Calendar date the timestamp falls on when days start `startMinutes` after midnight.
+const shiftedKey = (timestamp: number, startMinutes: number): string => {
+    const date = new Date(timestamp);
+    if (minutesOfDay(date) < startMinutes) {
+        return keyOfDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1));
+    }
+    return keyOfDate(date);
+};
+
+/** Local midnight of the calendar date named by `dayKey`. */
+export const dayKeyToDate = (dayKey: string): Date => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const addDays = (dayKey: string, days: number): string => {
+    const date = dayKeyToDate(dayKey);
+    return keyOfDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+};
+
+/** Diary day the timestamp belongs to; a void at 03:00 with a 07:00 day start counts for the previous day. */
+export const dayKeyOf = (timestamp: number, settings: DaySettings): string => shiftedKey(timestamp, settings.dayStartMinutes);
+
+export const todayKey = (settings: DaySettings): string => dayKeyOf(Date.now(), settings);
+
+/** First and last day keys of a range, both included; null leaves that end open. */
+export interface DayKeyRange {
+    fromKey: string | null;
+    toKey: string | null;
+}
+
+export const ALL_DAYS: DayKeyRange = { fromKey: null, toKey: null };
+
+export const isInRange = (dayKey: string, { fromKey, toKey }: DayKeyRange): boolean => {
+    return (fromKey === null || dayKey >= fromKey) && (toKey === null || dayKey <= toKey);
+};
+
+/**
+ * Days covered by the selected period. Weeks and months are paged back from the current one,
+ * which ends today rather than on its last calendar day.
+ */
+export const selectionRange = (selection: PeriodSelection, settings: DaySettings): DayKeyRange => {
+    const { period, offset } = selection;
+    if (period === 'all') return ALL_DAYS;
+    if (period === 'custom') return { fromKey: selection.fromKey, toKey: selection.toKey };
+
+    const today = todayKey(settings);
+    const date = dayKeyToDate(today);
+    let fromKey: string;
+    let toKey: string;
+    if (period === 'week') {
+        fromKey = addDays(today, -((date.getDay() + 6) % 7) + offset * 7);
+        toKey = addDays(fromKey, 6);
+    } else {
+        fromKey = keyOfDate(new Date(date.getFullYear(), date.getMonth() + offset, 1));
+        toKey = keyOfDate(new Date(date.getFullYear(), date.getMonth() + offset + 1, 0));
+    }
+    return { fromKey, toKey: toKey < today ? toKey : today };
+};
+
+/** First day key of the calendar month the day falls in. */
+export const monthStartKey = (dayKey: string): string => `${dayKey.slice(0, 7)}-01`;
+
+/** First day key of the month `months` after (or before, when negative) the day's month. */
+export const addMonths = (dayKey: string, months: number): string => {
+    const date = dayKeyToDate(dayKey);
+    return keyOfDate(new Date(date.getFullYear(), date.getMonth() + months, 1));
+};
+
+/** Start (inclusive) and end (exclusive) timestamps of a diary day. Not always 24 h long across DST changes. */
+export const dayRange = (dayKey: string, settings: DaySettings): { start: number; end: number } => {
+    const date = dayKeyToDate(dayKey);
+    const at = (offsetDays: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays, 0, settings.dayStartMinutes).getTime();
+    return { start: at(0), end: at(1) };
+};
+
+/** Every day key from `fromKey` to `toKey`, both included. */
+export const eachDayKey = (fromKey: string, toKey: string): string[] => {
+    const keys: string[] = [];
+    for (let key = fromKey; key <= toKey; key = addDays(key, 1)) {
+        keys.push(key);
+    }
+    return keys;
+};
+
+/** Day of the week with Monday as 0, as used in Spanish calendars. */
+export const weekdayIndex = (timestamp: number): number => (new Date(timestamp).getDay() + 6) % 7;
+
+export const isNightTime = (timestamp: number, settings: DaySettings): boolean => {
+    const minutes = minutesOfDay(new Date(timestamp));
+    const { sleepStartMinutes: start, sleepEndMinutes: end } = settings;
+    return start > end ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+};
+
+/**
+ * Night a night-time void belongs to, keyed by the date the night starts on,
+ * so 23:30 and 02:00 voids both count towards the same night.
+ */
+export const nightKeyOf = (timestamp: number, settings: DaySettings): string => shiftedKey(timestamp, settings.sleepStartMinutes);
+
+/** Day a void counts for in the day/night split: its night inside the sleep window, otherwise its diary day. */
+export const dayNightKeyOf = (timestamp: number, settings: DaySettings): string => {
+    return isNightTime(timestamp, settings) ? nightKeyOf(timestamp, settings) : dayKeyOf(timestamp, settings);
+};
+
+// Value for <input type="datetime-local">, which expects local wall-clock time without an offset.
+export const toDateTimeLocalValue = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${keyOfDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// "HH:mm" for <input type="time"> and for display of the configured windows.
+export const minutesToTimeValue = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+export const timeValueToMinutes = (value: string): number => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+const isMinuteOfDay = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < 24 * 60;
+
+// Any field that isn't a whole minute within the day falls back to its default.
+export const sanitizeDaySettings = (raw: unknown): DaySettings => {
+    const stored = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof DaySettings, unknown>>;
+    const minutes = (key: keyof DaySettings) => {
+        const value = stored[key];
+        return isMinuteOfDay(value) ? value : DEFAULT_DAY_SETTINGS[key];
+    };
+    return { dayStartMinutes: minutes('dayStartMinutes'), sleepStartMinutes: minutes('sleepStartMinutes'), sleepEndMinutes: minutes('sleepEndMinutes') };
+};
@@ -0,0 +1,211 @@
+import { LogEntry } from '../types';
+import { t } from '../i18n';
+import { isRecord, LOG_SCHEMA_VERSION, migrateLog, serializeLog } from './schema';
+
+export type ExportFormat = 'csv' | 'json';
+
+const CSV_COLUMNS = ['id', 'timestamp', 'kind', 'volume_ml', 'beverage', 'glucose_mg_dl', 'glucose_tag', 'medication_id', 'medication', 'dose', 'urgency', 'leakage', 'note'] as const;
+
+export interface ImportPreview {
+    // Entries from the file that are not yet in the log.
+    newEntries: LogEntry[];
+    duplicateCount: number;
+    invalidCount: number;
+}
+
+// Entries with the same id, or of the same kind logged within the same second, are considered the same entry.
+const secondKey = (entry: LogEntry) => `${entry.kind ?? 'void'}:${Math.floor(entry.timestamp / 1000)}`;
+
+const escapeCsvField = (value: string): string => {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Spreadsheets run a cell starting with one of these as a formula, so free text is written with a
+// leading apostrophe. Text that already starts with apostrophes gets one more, so import can undo it.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+const guardFormula = (value: string): string => FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const unguardFormula = (value: string): string => value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+export const entriesToCsv = (entries: LogEntry[]): string => {
+    const rows = entries.map(entry => [
+        entry.id,
+        new Date(entry.timestamp).toISOString(),
+        entry.kind ?? 'void',
+        entry.volumeMl !== undefined ? String(entry.volumeMl) : '',
+        entry.beverage ?? '',
+        entry.glucoseMgDl !== undefined ? String(entry.glucoseMgDl) : '',
+        entry.glucoseTag ?? '',
+        entry.medicationId ?? '',
+        guardFormula(entry.medicationName ?? ''),
+        guardFormula(entry.dose ?? ''),
+        entry.urgency !== undefined ? String(entry.urgency) : '',
+        entry.leakage ? 'true' : 'false',
+        guardFormula(entry.note ?? ''),
+    ].map(escapeCsvField).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const entriesToJson = (entries: LogEntry[]): string => {
+    const exported = {
+        ...serializeLog(entries),
+        exportedAt: new Date().toISOString(),
+        entries: entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })),
+    };
+    return JSON.stringify(exported, null, 2);
+};
+
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const parseTimestamp = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') return Date.parse(value);
+    return NaN;
+};
+
+const csvToRawEntries = (text: string): unknown[] => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header || !header.map(h => h.trim()).includes('timestamp')) {
+        throw new Error(t('import.csvMissingTimestamp'));
+    }
+    const columns = header.map(h => h.trim());
+    return rows.map(values => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, i) => { record[column] = (values[i] ?? '').trim(); });
+        const medicationName = unguardFormula(record.medication ?? '');
+        const dose = unguardFormula(record.dose ?? '');
+        const note = unguardFormula(record.note ?? '');
+        return {
+            id: record.id || undefined,
+            timestamp: parseTimestamp(record.timestamp),
+            kind: record.kind || undefined,
+            volumeMl: record.volume_ml ? Number(record.volume_ml) : undefined,
+            beverage: record.beverage || undefined,
+            glucoseMgDl: record.glucose_mg_dl ? Number(record.glucose_mg_dl) : undefined,
+            glucoseTag: record.glucose_tag || undefined,
+            medicationId: record.medication_id || undefined,
+            medicationName: medicationName || undefined,
+            dose: dose || undefined,
+            urgency: record.urgency ? Number(record.urgency) : undefined,
+            leakage: record.leakage === 'true' || record.leakage === '1',
+            note: note || undefined,
+        };
+    });
+};
+
+const jsonToRawEntries = (text: string): { version?: number; entries: unknown[] } => {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.entries : undefined;
+    if (!Array.isArray(list)) {
+        throw new Error(t('import.jsonNoEntries'));
+    }
+    return {
+        version: isRecord(parsed) && typeof parsed.version === 'number' ? parsed.version : undefined,
+        entries: list.map((entry: unknown) => isRecord(entry) ? { ...entry, timestamp: parseTimestamp(entry.timestamp) } : entry),
+    };
+};
+
+/**
+ * Parses an exported CSV or JSON file and compares it with the current log.
+ * Throws with a user-facing message when the file can't be read at all.
+ */
+export const previewImport = (text: string, fileName: string, existing: LogEntry[]): ImportPreview => {
+    const isJson = fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{') || text.trimStart().startsWith('[');
+    let rawEntries: unknown[];
+    let version: number | undefined;
+    try {
+        if (isJson) {
+            ({ entries: rawEntries, version } = jsonToRawEntries(text));
+        } else {
+            rawEntries = csvToRawEntries(text);
+            version = LOG_SCHEMA_VERSION;
+        }
+    } catch (error) {
+        if (error instanceof SyntaxError) {
+            throw new Error(t('import.invalidJson'));
+        }
+        throw error;
+    }
+    if (version !== undefined && version > LOG_SCHEMA_VERSION) {
+        throw new Error(t('import.newerVersion'));
+    }
+
+    const entries = migrateLog(version !== undefined ? { version, entries: rawEntries } : rawEntries);
+    const invalidCount = rawEntries.length - entries.length;
+
+    const knownIds = new Set(existing.map(entry => entry.id));
+    const knownSeconds = new Set(existing.map(secondKey));
+    const newEntries: LogEntry[] = [];
+    let duplicateCount = 0;
+
+    for (const entry of entries) {
+        if (knownIds.has(entry.id) || knownSeconds.has(secondKey(entry))) {
+            duplicateCount++;
+            continue;
+        }
+        knownIds.add(entry.id);
+        knownSeconds.add(secondKey(entry));
+        newEntries.push(entry);
+    }
+
+    return { newEntries, duplicateCount, invalidCount };
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Opens the share sheet with the file. Resolves to false where files can't be shared, e.g. most desktop browsers. */
+export const shareFile = async (fileName: string, content: string, mimeType: string): Promise<boolean> => {
+    const file = new File([content], fileName, { type: mimeType });
+    if (typeof navigator.canShare !== 'function' || !navigator.canShare({ files: [file] })) {
+        return false;
+    }
+    await navigator.share({ files: [file], title: fileName });
+    return true;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { DEFAULT_DAY_SETTINGS } from './dates';
+import { entriesToFhirBundle, FhirBundle } from './fhir';
+
+// Local wall-clock times, so the diary days don't depend on the time zone the tests run in.
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes).getTime();
+
+const entries: LogEntry[] = [
+    { id: 'a', timestamp: at(10, 9), volumeMl: 250, urgency: 2 },
+    { id: 'b', timestamp: at(10, 15), leakage: true, note: 'After a walk' },
+    { id: 'c', timestamp: at(10, 23, 30), volumeMl: 300 },
+    // After midnight, but still the night that started on the 10th.
+    { id: 'd', timestamp: at(11, 3), volumeMl: 200 },
+    { id: 'e', timestamp: at(11, 12), kind: 'intake', volumeMl: 500, beverage: 'water' },
+    // The only void of the 12th is at night: its diary day has no day-time voids.
+    { id: 'f', timestamp: at(13, 2) },
+];
+
+const observations = (bundle: FhirBundle) => bundle.entry.filter(({ resource }) => resource.resourceType === 'Observation')
+    .map(({ resource }) => resource as Extract<FhirBundle['entry'][number]['resource'], { resourceType: 'Observation' }>);
+
+const summaries = (bundle: FhirBundle) => observations(bundle).filter(observation => observation.effectivePeriod !== undefined);
+
+describe('entriesToFhirBundle', () => {
+    const bundle = entriesToFhirBundle(entries, ' Ana ', DEFAULT_DAY_SETTINGS);
+
+    it('builds a collection Bundle with unique urn:uuid fullUrls', () => {
+        expect(bundle.resourceType).toBe('Bundle');
+        expect(bundle.type).toBe('collection');
+        expect(Number.isNaN(Date.parse(bundle.timestamp))).toBe(false);
+        const fullUrls = bundle.entry.map(({ fullUrl }) => fullUrl);
+        fullUrls.forEach(fullUrl => expect(fullUrl).toMatch(/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+        expect(new Set(fullUrls).size).toBe(fullUrls.length);
+    });
+
+    it('names the patient and points every Observation at it', () => {
+        const patients = bundle.entry.filter(({ resource }) => resource.resourceType === 'Patient');
+        expect(patients).toHaveLength(1);
+        expect(patients[0].resource).toEqual({ resourceType: 'Patient', name: [{ text: 'Ana' }] });
+        observations(bundle).forEach(observation => expect(observation.subject.reference).toBe(patients[0].fullUrl));
+    });
+
+    it('gives every Observation the required R4 elements and exactly one value or absent reason', () => {
+        observations(bundle).forEach(observation => {
+            expect(observation.status).toBe('final');
+            expect(observation.code.coding.length).toBeGreaterThan(0);
+            observation.code.coding.forEach(coding => {
+                expect(coding.system).toBeTruthy();
+                expect(coding.code).toBeTruthy();
+            });
+            expect(Number(observation.effectiveDateTime !== undefined) + Number(observation.effectivePeriod !== undefined)).toBe(1);
+            const values = [observation.valueQuantity, observation.valueInteger].filter(value => value !== undefined);
+            expect(values.length + Number(observation.dataAbsentReason !== undefined)).toBe(1);
+            observation.component?.forEach(component => {
+                expect(component.code.coding.length).toBeGreaterThan(0);
+                expect([component.valueQuantity, component.valueInteger, component.valueBoolean].filter(value => value !== undefined)).toHaveLength(1);
+            });
+        });
+    });
+
+    it('exports one Observation per void and leaves other entries out', () => {
+        const voids = observations(bundle).filter(observation => observation.effectiveDateTime !== undefined);
+        expect(voids.map(observation => observation.identifier?.[0].value)).toEqual(['a', 'b', 'c', 'd', 'f']);
+        expect(voids[0].valueQuantity).toEqual({ value: 250, unit: 'mL', system: 'http://unitsofmeasure.org', code: 'mL' });
+        expect(voids[1].dataAbsentReason?.coding[0].code).toBe('not-performed');
+        expect(voids[1].component?.map(component => component.valueBoolean)).toEqual([true]);
+        expect(voids[1].note).toEqual([{ text: 'After a walk' }]);
+    });
+
+    it('counts each summary as the sum of its day and night components', () => {
+        summaries(bundle).forEach(summary => {
+            const [day, night] = summary.component!;
+            expect(summary.valueInteger).toBe(day.valueInteger! + night.valueInteger!);
+            expect(summary.note?.[0].text).toBeTruthy();
+        });
+        expect(summaries(bundle).map(summary => [summary.valueInteger, summary.component![0].valueInteger, summary.component![1].valueInteger]))
+            .toEqual([[4, 2, 2], [1, 0, 1]]);
+    });
+
+    it('covers the whole night in the period of a day with night-time voids only', () => {
+        const nightOnly = summaries(bundle)[1];
+        expect(nightOnly.valueInteger).toBe(1);
+        const start = Date.parse(nightOnly.effectivePeriod!.start);
+        const end = Date.parse(nightOnly.effectivePeriod!.end);
+        expect(start).toBeLessThanOrEqual(at(13, 2));
+        expect(end).toBeGreaterThan(at(13, 2));
+        expect(end).toBe(at(13, 7));
+    });
+
+    it('sums measured output over the same voids as the counts', () => {
+        const [first] = summaries(bundle);
+        expect(first.component![2].valueQuantity?.value).toBe(250 + 300 + 200);
+        expect(summaries(bundle)[1].component).toHaveLength(2);
+    });
+
+    it('exports only the patient when there are no voids', () => {
+        const empty = entriesToFhirBundle([], '', DEFAULT_DAY_SETTINGS);
+        expect(empty.entry).toHaveLength(1);
+        expect(empty.entry[0].resource).toEqual({ resourceType: 'Patient' });
+    });
+});
@@ -0,0 +1,173 @@
+import { DaySettings, LogEntry } from '../types';
+import { dayKeyToDate, dayNightKeyOf, dayRange, isNightTime } from './dates';
+import { isVoid } from './schema';
+
+/*
+ * HL7 FHIR R4 export for clinic systems: a collection Bundle with the patient, one Observation
+ * per void and one summary Observation per diary day. Only base R4 elements are used, so any
+ * server that accepts plain Observations can take it. Codes that LOINC has no term for come
+ * from the app's own code system.
+ *
+ * A day's summary follows the day/night split of the report: the day-time voids of the diary
+ * day plus the voids of the night that starts on it, so its total is always the sum of its
+ * components and its period runs to the end of that night.
+ */
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const APP_CODES = 'urn:registro-miccion:codes';
+const APP_ENTRY_IDS = 'urn:registro-miccion:entry';
+const DATA_ABSENT_REASON = 'http://terminology.hl7.org/CodeSystem/data-absent-reason';
+
+interface Coding {
+    system: string;
+    code: string;
+    display?: string;
+}
+
+interface CodeableConcept {
+    coding: Coding[];
+    text?: string;
+}
+
+interface Quantity {
+    value: number;
+    unit: string;
+    system: typeof UCUM;
+    code: string;
+}
+
+interface ObservationComponent {
+    code: CodeableConcept;
+    valueQuantity?: Quantity;
+    valueInteger?: number;
+    valueBoolean?: boolean;
+}
+
+interface Observation {
+    resourceType: 'Observation';
+    identifier?: { system: string; value: string }[];
+    status: 'final';
+    code: CodeableConcept;
+    subject: { reference: string };
+    effectiveDateTime?: string;
+    effectivePeriod?: { start: string; end: string };
+    valueQuantity?: Quantity;
+    valueInteger?: number;
+    dataAbsentReason?: CodeableConcept;
+    component?: ObservationComponent[];
+    note?: { text: string }[];
+}
+
+interface Patient {
+    resourceType: 'Patient';
+    name?: { text: string }[];
+}
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    type: 'collection';
+    timestamp: string;
+    entry: { fullUrl: string; resource: Patient | Observation }[];
+}
+
+const appCode = (code: string, display: string): CodeableConcept => ({ coding: [{ system: APP_CODES, code, display }], text: display });
+
+const CODES = {
+    void: { coding: [{ system: APP_CODES, code: 'void', display: 'Void' }, { system: LOINC, code: '9187-6', display: 'Urine output' }], text: 'Void' },
+    urgency: appCode('urgency', 'Urgency score (0-4)'),
+    leakage: appCode('leakage', 'Leakage'),
+    dailySummary: appCode('daily-void-summary', 'Voids per diary day'),
+    dayVoids: appCode('day-voids', 'Day-time voids'),
+    nightVoids: appCode('night-voids', 'Night-time voids (nocturia)'),
+    output: { coding: [{ system: LOINC, code: '9187-6', display: 'Urine output' }], text: 'Measured output' },
+} satisfies Record<string, CodeableConcept>;
+
+const millilitres = (value: number): Quantity => ({ value, unit: 'mL', system: UCUM, code: 'mL' });
+
+const SUMMARY_NOTE = 'Day-time voids of this diary day plus the night-time voids of the night that starts on it.';
+
+// fullUrl of resources that have no server id yet; crypto.randomUUID is missing outside secure contexts.
+const urnUuid = (): string => {
+    if (typeof crypto.randomUUID === 'function') return `urn:uuid:${crypto.randomUUID()}`;
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const voidObservation = (entry: LogEntry, subject: string): Observation => {
+    const component: ObservationComponent[] = [];
+    if (entry.urgency !== undefined) component.push({ code: CODES.urgency, valueInteger: entry.urgency });
+    if (entry.leakage) component.push({ code: CODES.leakage, valueBoolean: true });
+    return {
+        resourceType: 'Observation',
+        identifier: [{ system: APP_ENTRY_IDS, value: entry.id }],
+        status: 'final',
+        code: CODES.void,
+        subject: { reference: subject },
+        effectiveDateTime: new Date(entry.timestamp).toISOString(),
+        // A void without a measured volume still counts; the value is marked as not taken.
+        ...(entry.volumeMl !== undefined
+            ? { valueQuantity: millilitres(entry.volumeMl) }
+            : { dataAbsentReason: { coding: [{ system: DATA_ABSENT_REASON, code: 'not-performed' }] } }),
+        ...(component.length > 0 && { component }),
+        ...(entry.note && { note: [{ text: entry.note }] }),
+    };
+};
+
+/** Bundle of the voids among the entries; drinks, glucose readings and doses are left out. */
+export const entriesToFhirBundle = (entries: LogEntry[], patientName: string, settings: DaySettings): FhirBundle => {
+    const voids = entries.filter(isVoid).sort((a, b) => a.timestamp - b.timestamp);
+    const patientUrl = urnUuid();
+    const patient: Patient = { resourceType: 'Patient', ...(patientName.trim() && { name: [{ text: patientName.trim() }] }) };
+
+    const byDay = new Map<string, LogEntry[]>();
+    voids.forEach(entry => {
+        const dayKey = dayNightKeyOf(entry.timestamp, settings);
+        byDay.set(dayKey, [...(byDay.get(dayKey) ?? []), entry]);
+    });
+    const dailySummaries = [...byDay.keys()].sort().map((dayKey): Observation => {
+        const dayVoids = byDay.get(dayKey)!;
+        const nightCount = dayVoids.filter(entry => isNightTime(entry.timestamp, settings)).length;
+        const measured = dayVoids.filter(entry => entry.volumeMl !== undefined);
+        const { start, end } = dayRange(dayKey, settings);
+        // The night that starts on this day ends the next morning, unless the whole sleep window is after midnight.
+        const date = dayKeyToDate(dayKey);
+        const crossesMidnight = settings.sleepStartMinutes > settings.sleepEndMinutes;
+        const nightStart = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, settings.sleepStartMinutes).getTime();
+        const nightEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + (crossesMidnight ? 1 : 0), 0, settings.sleepEndMinutes).getTime();
+        return {
+            resourceType: 'Observation',
+            status: 'final',
+            code: CODES.dailySummary,
+            subject: { reference: patientUrl },
+            effectivePeriod: { start: new Date(Math.min(start, nightStart)).toISOString(), end: new Date(Math.max(end, nightEnd)).toISOString() },
+            valueInteger: dayVoids.length,
+            component: [
+                { code: CODES.dayVoids, valueInteger: dayVoids.length - nightCount },
+                { code: CODES.nightVoids, valueInteger: nightCount },
+                ...(measured.length > 0 ? [{ code: CODES.output, valueQuantity: millilitres(measured.reduce((sum, entry) => sum + entry.volumeMl!, 0)) }] : []),
+            ],
+            note: [{ text: SUMMARY_NOTE }],
+        };
+    });
+
+    return {
+        resourceType: 'Bundle',
+        type: 'collection',
+        timestamp: new Date().toISOString(),
+        entry: [
+            { fullUrl: patientUrl, resource: patient },
+            ...voids.map(entry => ({ fullUrl: urnUuid(), resource: voidObservation(entry, patientUrl) })),
+            ...dailySummaries.map(resource => ({ fullUrl: urnUuid(), resource })),
+        ],
+    };
+};
+
+export const entriesToFhir = (entries: LogEntry[], patientName: string, settings: DaySettings): string => {
+    return JSON.stringify(entriesToFhirBundle(entries, patientName, settings), null, 2);
+};
@@ -0,0 +1,139 @@
+import { BeverageType, GlucoseTag, GlucoseUnit, LogEntry, MedicationCategory, UrgencyScore, VolumeUnit } from '../types';
+import { hourCycleOptions, intlLocale, MessageKey, t } from '../i18n';
+import { dayKeyToDate } from './dates';
+
+const ML_PER_OZ = 29.5735;
+// Molar mass of glucose: 1 mmol/L = 18.016 mg/dL.
+const MG_DL_PER_MMOL_L = 18.016;
+
+// Formats dates and times in the selected language, with the chosen 12/24-hour clock when a time is shown.
+export const formatTimestamp = (timestamp: number, options: Intl.DateTimeFormatOptions): string => {
+    const showsTime = options.hour !== undefined || options.timeStyle !== undefined;
+    return new Intl.DateTimeFormat(intlLocale(), showsTime ? { ...options, ...hourCycleOptions() } : options).format(new Date(timestamp));
+};
+
+export const formatDayKey = (dayKey: string, options: Intl.DateTimeFormatOptions): string => {
+    return formatTimestamp(dayKeyToDate(dayKey).getTime(), options);
+};
+
+// A time of day given in minutes after midnight, e.g. the sleep window, on the chosen clock.
+export const formatMinutesOfDay = (minutes: number): string => {
+    return formatTimestamp(new Date(2024, 0, 1, Math.floor(minutes / 60), minutes % 60).getTime(), { hour: 'numeric', minute: '2-digit' });
+};
+
+// Name of the day of the week with Monday as 0. 1 January 2024 was a Monday.
+export const weekdayName = (weekday: number, width: 'narrow' | 'short' | 'long'): string => {
+    return formatTimestamp(new Date(2024, 0, 1 + weekday).getTime(), { weekday: width });
+};
+
+// e.g. "2 h 15 min"
+export const formatDuration = (ms: number): string => {
+    const totalMinutes = Math.round(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes} min`;
+    return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`;
+};
+
+// Message keys of the labels for each value; translate with t().
+export const URGENCY_LABEL_KEYS: Record<UrgencyScore, MessageKey> = {
+    0: 'urgency.none',
+    1: 'urgency.mild',
+    2: 'urgency.moderate',
+    3: 'urgency.strong',
+    4: 'urgency.leak',
+};
+
+export const BEVERAGE_LABEL_KEYS: Record<BeverageType, MessageKey> = {
+    water: 'beverage.water',
+    coffee: 'beverage.coffee',
+    tea: 'beverage.tea',
+    juice: 'beverage.juice',
+    soda: 'beverage.soda',
+    milk: 'beverage.milk',
+    alcohol: 'beverage.alcohol',
+    other: 'beverage.other',
+};
+
+export const GLUCOSE_TAG_LABEL_KEYS: Record<GlucoseTag, MessageKey> = {
+    fasting: 'glucoseTag.fasting',
+    preMeal: 'glucoseTag.preMeal',
+    postMeal: 'glucoseTag.postMeal',
+};
+
+export const MEDICATION_CATEGORY_LABEL_KEYS: Record<MedicationCategory, MessageKey> = {
+    diuretic: 'medicationCategory.diuretic',
+    sglt2: 'medicationCategory.sglt2',
+    insulin: 'medicationCategory.insulin',
+    other: 'medicationCategory.other',
+};
+
+// Stored unit choices; anything unrecognised reads as the default unit.
+export const sanitizeGlucoseUnit = (raw: unknown): GlucoseUnit => raw === 'mmol/L' ? 'mmol/L' : 'mg/dL';
+
+export const sanitizeVolumeUnit = (raw: unknown): VolumeUnit => raw === 'oz' ? 'oz' : 'ml';
+
+export const toMgDl = (value: number, unit: GlucoseUnit): number => {
+    return unit === 'mmol/L' ? value * MG_DL_PER_MMOL_L : value;
+};
+
+export const fromMgDl = (mgDl: number, unit: GlucoseUnit): number => {
+    return unit === 'mmol/L' ? mgDl / MG_DL_PER_MMOL_L : mgDl;
+};
+
+export const formatGlucose = (mgDl: number, unit: GlucoseUnit): string => {
+    const value = fromMgDl(mgDl, unit);
+    return unit === 'mmol/L'
+        ? `${value.toLocaleString(intlLocale(), { minimumFractionDigits: 1, maximumFractionDigits: 1 })} mmol/L`
+        : `${Math.round(value).toLocaleString(intlLocale())} mg/dL`;
+};
+
+export const toMillilitres = (amount: number, unit: VolumeUnit): number => {
+    return unit === 'oz' ? amount * ML_PER_OZ : amount;
+};
+
+export const fromMillilitres = (volumeMl: number, unit: VolumeUnit): number => {
+    return unit === 'oz' ? volumeMl / ML_PER_OZ : volumeMl;
+};
+
+export const formatVolume = (volumeMl: number, unit: VolumeUnit): string => {
+    const amount = fromMillilitres(volumeMl, unit);
+    return unit === 'oz'
+        ? `${amount.toLocaleString(intlLocale(), { minimumFractionDigits: 1, maximumFractionDigits: 1 })} oz`
+        : `${Math.round(amount).toLocaleString(intlLocale())} mL`;
+};
+
+// Short, human-readable summary of the optional diary fields, e.g. "250 mL · Urgency: Mild · Leak",
+// "Drink: Coffee · 200 mL" for a drink, "Glucose: 145 mg/dL · Fasting" for a reading
+// or "Medication: Furosemide · 40 mg" for a dose.
+export const describeEntryDetails = (entry: LogEntry, unit: VolumeUnit, glucoseUnit: GlucoseUnit = 'mg/dL'): string[] => {
+    const parts: string[] = [];
+    if (entry.kind === 'dose') {
+        parts.push(t('details.medication', { name: entry.medicationName ?? '' }));
+        if (entry.dose) {
+            parts.push(entry.dose);
+        }
+    }
+    if (entry.kind === 'glucose' && entry.glucoseMgDl !== undefined) {
+        parts.push(t('details.glucose', { value: formatGlucose(entry.glucoseMgDl, glucoseUnit) }));
+        if (entry.glucoseTag) {
+            parts.push(t(GLUCOSE_TAG_LABEL_KEYS[entry.glucoseTag]));
+        }
+    }
+    if (entry.kind === 'intake') {
+        parts.push(t('details.beverage', { beverage: t(entry.beverage ? BEVERAGE_LABEL_KEYS[entry.beverage] : 'details.unspecified') }));
+    }
+    if (entry.volumeMl !== undefined) {
+        parts.push(formatVolume(entry.volumeMl, unit));
+    }
+    if (entry.urgency !== undefined) {
+        parts.push(t('details.urgency', { urgency: t(URGENCY_LABEL_KEYS[entry.urgency]) }));
+    }
+    if (entry.leakage) {
+        parts.push(t('details.leakage'));
+    }
+    if (entry.note) {
+        parts.push(`"${entry.note}"`);
+    }
+    return parts;
+};
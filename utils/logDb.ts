@@ -0,0 +1,373 @@
+import { LogEntry } from '../types';
+import { SealedData, seal, unseal } from './crypto';
+import { DEFAULT_PROFILE_ID, reminderSettingsKey } from './profiles';
+import { isVoid, migrateLog, NewerSchemaError } from './schema';
+
+// The service worker (sw.js) opens the same database to log from notifications; keep the names in sync.
+const DB_NAME = 'registro-miccion';
+const DB_VERSION = 5;
+const ENTRIES_STORE = 'entries';
+// Only ever used as a key path since version 5.
+const TIMESTAMP_INDEX = 'timestamp';
+// [profileId, timestamp]; replaced by PROFILE_INDEX in version 4, when encrypted entries had no readable timestamp.
+const PROFILE_TIMESTAMP_INDEX = 'profile';
+const PROFILE_INDEX = 'profileId';
+// [profileId, timestamp] again from version 5: every read is a range of one profile's log by time.
+const PROFILE_TIME_INDEX = 'profileTime';
+// Entries read per step while looking for the latest void; most of the time the first one is it.
+const LATEST_VOID_BATCH = 20;
+// Key-value store for settings the service worker also needs to read.
+const SETTINGS_STORE = 'settings';
+// Settings key of the app lock; device-wide, not per profile. Writes without a key check it.
+export const LOCK_SETTINGS_KEY = 'lock';
+
+// localStorage key used before the log moved to IndexedDB; imported once and then removed.
+export const LEGACY_LOG_KEY = 'urinationLog';
+// Settings key the reminders were stored under before profiles.
+const LEGACY_REMINDERS_KEY = 'reminders';
+// Settings key where the service worker queues entries logged from a notification while the app
+// lock is on: it has no key to encrypt them with, so they wait there instead of in the log.
+const PENDING_ENTRIES_KEY = 'pendingEntries';
+
+interface PendingEntry {
+    profileId: string;
+    entry: LogEntry;
+}
+
+// Entries are stored tagged with the profile they belong to; the tag never reaches the UI.
+// While the app lock is on, everything but the id, the profile and the time is encrypted. The
+// time stays readable so the log can be read by period through PROFILE_TIME_INDEX: at rest it
+// shows when something was logged, never what.
+type PlainEntry = LogEntry & { profileId: string };
+interface SealedEntry {
+    id: string;
+    profileId: string;
+    // Missing on entries sealed before version 5, until the next unlock rewrites them.
+    timestamp?: number;
+    sealed: SealedData;
+}
+type StoredEntry = PlainEntry | SealedEntry;
+
+// Set while the app lock is on and unlocked; entries are written encrypted with it.
+let logKey: CryptoKey | null = null;
+
+export const setLogKey = (key: CryptoKey | null) => {
+    logKey = key;
+};
+
+export const getLogKey = (): CryptoKey | null => logKey;
+
+const isSealed = (record: StoredEntry): record is SealedEntry => 'sealed' in record;
+
+const toStored = async (entry: LogEntry, profileId: string, key = logKey): Promise<StoredEntry> => {
+    return key ? { id: entry.id, profileId, timestamp: entry.timestamp, sealed: await seal(key, entry) } : { ...entry, profileId };
+};
+
+const fromStored = async (record: StoredEntry): Promise<LogEntry> => {
+    if (!isSealed(record)) {
+        const { profileId, ...entry } = record;
+        return entry;
+    }
+    if (!logKey) {
+        throw new Error('The log is encrypted and the app is locked');
+    }
+    return unseal<LogEntry>(logKey, record.sealed);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+// null when the old log was written by a newer version: it stays in localStorage, read-only.
+const readLegacyLog = (): LogEntry[] | null => {
+    try {
+        const item = window.localStorage.getItem(LEGACY_LOG_KEY);
+        return item ? migrateLog(JSON.parse(item)) : [];
+    } catch (error) {
+        console.error(error);
+        return error instanceof NewerSchemaError ? null : [];
+    }
+};
+
+/** Whether an old localStorage log was left alone because a newer version of the app wrote it. */
+export const hasNewerLegacyLog = (): boolean => readLegacyLog() === null;
+
+export const openLogDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        let importedLegacy = false;
+
+        request.onupgradeneeded = event => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                const store = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                store.createIndex(TIMESTAMP_INDEX, TIMESTAMP_INDEX);
+                // One-time import of the old localStorage log, inside the upgrade transaction so it is all-or-nothing.
+                const legacy = readLegacyLog();
+                legacy?.forEach(entry => store.put({ ...entry, profileId: DEFAULT_PROFILE_ID }));
+                importedLegacy = legacy !== null;
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore(SETTINGS_STORE);
+            }
+            if (event.oldVersion < 3) {
+                // Everything logged before profiles existed moves into the default profile.
+                const transaction = request.transaction!;
+                const store = transaction.objectStore(ENTRIES_STORE);
+                store.createIndex(PROFILE_TIMESTAMP_INDEX, ['profileId', TIMESTAMP_INDEX]);
+                store.openCursor().onsuccess = e => {
+                    const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+                    if (!cursor) return;
+                    if (!cursor.value.profileId) {
+                        cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+                    }
+                    cursor.continue();
+                };
+                if (event.oldVersion >= 2) {
+                    const settings = transaction.objectStore(SETTINGS_STORE);
+                    settings.get(LEGACY_REMINDERS_KEY).onsuccess = e => {
+                        const reminders = (e.target as IDBRequest).result;
+                        if (reminders === undefined) return;
+                        settings.put(reminders, reminderSettingsKey(DEFAULT_PROFILE_ID));
+                        settings.delete(LEGACY_REMINDERS_KEY);
+                    };
+                }
+            }
+            if (event.oldVersion < 4) {
+                const store = request.transaction!.objectStore(ENTRIES_STORE);
+                store.deleteIndex(PROFILE_TIMESTAMP_INDEX);
+                store.createIndex(PROFILE_INDEX, 'profileId');
+            }
+            if (event.oldVersion < 5) {
+                // Entries sealed before this version have no readable time and stay out of the
+                // index until the next unlock rewrites them (see resealEntries).
+                const store = request.transaction!.objectStore(ENTRIES_STORE);
+                store.deleteIndex(TIMESTAMP_INDEX);
+                store.deleteIndex(PROFILE_INDEX);
+                store.createIndex(PROFILE_TIME_INDEX, ['profileId', TIMESTAMP_INDEX]);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            if (importedLegacy) {
+                window.localStorage.removeItem(LEGACY_LOG_KEY);
+            }
+            // Let a newer version opened in another tab upgrade the schema.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+// A profile's entries with start <= timestamp < end, in PROFILE_TIME_INDEX order.
+const profileTimeRange = (profileId: string, start: number, end: number) => IDBKeyRange.bound([profileId, start], [profileId, end], false, true);
+
+/** A profile's entries with start <= timestamp < end, newest first like the UI keeps the log. */
+export const getEntriesInRange = async (profileId: string, start: number, end: number): Promise<LogEntry[]> => {
+    const db = await openLogDb();
+    const index = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).index(PROFILE_TIME_INDEX);
+    const records = await requestToPromise(index.getAll(profileTimeRange(profileId, start, end)) as IDBRequest<StoredEntry[]>);
+    const entries = await Promise.all(records.map(fromStored));
+    return entries.reverse();
+};
+
+export const getAllEntries = (profileId: string): Promise<LogEntry[]> => getEntriesInRange(profileId, -Infinity, Infinity);
+
+// Up to `count` entries before `end`, newest first, plus any more at the same time as the last one.
+const readLatestRecords = async (profileId: string, end: number, count: number): Promise<StoredEntry[]> => {
+    const db = await openLogDb();
+    const index = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).index(PROFILE_TIME_INDEX);
+    return new Promise((resolve, reject) => {
+        const records: StoredEntry[] = [];
+        const request = index.openCursor(profileTimeRange(profileId, -Infinity, end), 'prev');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor && (records.length < count || cursor.value.timestamp === records[records.length - 1].timestamp)) {
+                records.push(cursor.value);
+                cursor.continue();
+            } else {
+                resolve(records);
+            }
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/** Time of the profile's latest void, or null when it has none. Reads back from the newest entry in small steps. */
+export const getLastVoidTimestamp = async (profileId: string): Promise<number | null> => {
+    let end = Infinity;
+    for (;;) {
+        // Decrypted outside the cursor: a transaction closes while it waits on anything else.
+        const records = await readLatestRecords(profileId, end, LATEST_VOID_BATCH);
+        const entries = await Promise.all(records.map(fromStored));
+        const latestVoid = entries.find(isVoid);
+        if (latestVoid) return latestVoid.timestamp;
+        if (records.length < LATEST_VOID_BATCH) return null;
+        end = entries[entries.length - 1].timestamp;
+    }
+};
+
+/**
+ * Writes changed entries and removes deleted ones in a single transaction. `key` is the log key
+ * when the write was requested, so a write still queued when the app locks is sealed all the
+ * same; without one, nothing is written while the lock is on.
+ */
+export const writeEntries = async (profileId: string, changed: LogEntry[], removedIds: string[], key = logKey): Promise<void> => {
+    // Encrypt first: a transaction closes as soon as it is left waiting on anything but its own requests.
+    const records = await Promise.all(changed.map(entry => toStored(entry, profileId, key)));
+    const db = await openLogDb();
+    const transaction = db.transaction([ENTRIES_STORE, SETTINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+    const write = () => {
+        removedIds.forEach(id => store.delete(id));
+        records.forEach(record => store.put(record));
+    };
+    let refused = false;
+    if (key || records.length === 0) {
+        write();
+    } else {
+        transaction.objectStore(SETTINGS_STORE).get(LOCK_SETTINGS_KEY).onsuccess = e => {
+            if ((e.target as IDBRequest).result === undefined) {
+                write();
+            } else {
+                refused = true;
+                transaction.abort();
+            }
+        };
+    }
+    try {
+        await transactionDone(transaction);
+    } catch (error) {
+        throw refused ? new Error('The app is locked and the entries would be stored unencrypted') : error;
+    }
+};
+
+const deleteProfileEntries = (transaction: IDBTransaction, profileId: string) => {
+    const index = transaction.objectStore(ENTRIES_STORE).index(PROFILE_TIME_INDEX);
+    index.openKeyCursor(profileTimeRange(profileId, -Infinity, Infinity)).onsuccess = e => {
+        const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+        if (!cursor) return;
+        transaction.objectStore(ENTRIES_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+    };
+};
+
+export const clearEntries = async (profileId: string): Promise<void> => {
+    const db = await openLogDb();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    deleteProfileEntries(transaction, profileId);
+    await transactionDone(transaction);
+};
+
+/**
+ * Rewrites the entries of every profile with `nextKey`, or in the clear when it is null, and
+ * starts using it. With `onlyOutdated`, just seals what an interrupted switch-on left in the
+ * clear and adds the readable time to entries sealed before version 5.
+ */
+export const resealEntries = async (nextKey: CryptoKey | null, onlyOutdated = false): Promise<void> => {
+    const db = await openLogDb();
+    const records = await requestToPromise(db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).getAll() as IDBRequest<StoredEntry[]>);
+    const pending = onlyOutdated ? records.filter(record => !isSealed(record) || record.timestamp === undefined) : records;
+    const resealed = await Promise.all(pending.map(async record => toStored(await fromStored(record), record.profileId, nextKey)));
+    if (resealed.length > 0) {
+        const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+        const store = transaction.objectStore(ENTRIES_STORE);
+        resealed.forEach(record => store.put(record));
+        await transactionDone(transaction);
+    }
+    logKey = nextKey;
+};
+
+/**
+ * Moves the entries the service worker queued while the lock was on into the log, encrypted
+ * with the current key. Does nothing while locked.
+ */
+export const drainPendingEntries = async (): Promise<void> => {
+    if (!logKey) return;
+    const queued = (await getSetting<PendingEntry[]>(PENDING_ENTRIES_KEY)) ?? [];
+    if (queued.length === 0) return;
+    const records = await Promise.all(queued.map(({ profileId, entry }) => toStored(entry, profileId)));
+    const drainedIds = new Set(queued.map(({ entry }) => entry.id));
+
+    const db = await openLogDb();
+    const transaction = db.transaction([ENTRIES_STORE, SETTINGS_STORE], 'readwrite');
+    records.forEach(record => transaction.objectStore(ENTRIES_STORE).put(record));
+    // Keep whatever the service worker queued since it was read.
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    settings.get(PENDING_ENTRIES_KEY).onsuccess = e => {
+        const current: PendingEntry[] = (e.target as IDBRequest<PendingEntry[] | undefined>).result ?? [];
+        const rest = current.filter(({ entry }) => !drainedIds.has(entry.id));
+        if (rest.length > 0) {
+            settings.put(rest, PENDING_ENTRIES_KEY);
+        } else {
+            settings.delete(PENDING_ENTRIES_KEY);
+        }
+    };
+    await transactionDone(transaction);
+};
+
+/** Removes a profile's entries and reminder settings. */
+export const deleteProfileData = async (profileId: string): Promise<void> => {
+    const db = await openLogDb();
+    const transaction = db.transaction([ENTRIES_STORE, SETTINGS_STORE], 'readwrite');
+    deleteProfileEntries(transaction, profileId);
+    transaction.objectStore(SETTINGS_STORE).delete(reminderSettingsKey(profileId));
+    await transactionDone(transaction);
+};
+
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openLogDb();
+    const store = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+    return requestToPromise(store.get(key) as IDBRequest<T | undefined>);
+};
+
+export const putSetting = async <T>(key: string, value: T): Promise<void> => {
+    const db = await openLogDb();
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(value, key);
+    await transactionDone(transaction);
+};
+
+export const deleteSetting = async (key: string): Promise<void> => {
+    const db = await openLogDb();
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).delete(key);
+    await transactionDone(transaction);
+};
+
+/** Deletes the whole database, e.g. after a forgotten passphrase. */
+export const deleteLogDb = async (): Promise<void> => {
+    if (dbPromise) {
+        (await dbPromise.catch(() => null))?.close();
+        dbPromise = null;
+    }
+    logKey = null;
+    await requestToPromise(indexedDB.deleteDatabase(DB_NAME));
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+    return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
@@ -0,0 +1,90 @@
+import { Profile } from '../types';
+import { t } from '../i18n';
+
+export const PROFILES_KEY = 'profiles';
+export const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+// Data stored before profiles existed belongs to this one. The service worker uses the same id
+// when a notification carries none.
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Per-person settings that used to live under these bare localStorage keys.
+const PROFILE_SETTING_KEYS = ['volumeUnit', 'glucoseUnit', 'medications', 'daySettings', 'patientName'];
+// Per-person settings that are health data and get sealed while the app lock is on. Units stay
+// readable, like the display settings the lock screen itself needs.
+const HEALTH_SETTING_KEYS = ['medications', 'daySettings', 'patientName', 'thresholds'];
+
+const PROFILE_PREFIX = 'profile:';
+const profilePrefix = (profileId: string) => `${PROFILE_PREFIX}${profileId}:`;
+
+/** localStorage key of a setting that belongs to one profile. */
+export const profileStorageKey = (profileId: string, key: string) => `${profilePrefix(profileId)}${key}`;
+
+/** Whether a localStorage key holds health data: the profile names or a per-profile health setting. */
+export const isHealthDataKey = (storageKey: string): boolean => {
+    if (storageKey === PROFILES_KEY) return true;
+    return storageKey.startsWith(PROFILE_PREFIX) && HEALTH_SETTING_KEYS.some(key => storageKey.endsWith(`:${key}`));
+};
+
+/** IndexedDB settings key of the reminder settings of one profile. */
+export const reminderSettingsKey = (profileId: string) => `reminders:${profileId}`;
+
+export const sanitizeProfiles = (raw: unknown): Profile[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((item): item is Profile =>
+        typeof item === 'object' && item !== null && typeof item.id === 'string' && typeof item.name === 'string' && item.name.trim() !== '');
+};
+
+/**
+ * Reads the profile list from its stored JSON text, decrypted if the lock is on. The first time,
+ * the settings kept under the old bare keys move into a default profile named after the patient;
+ * the log itself is moved by the IndexedDB upgrade.
+ */
+export const loadProfiles = (stored: string | null): Profile[] => {
+    try {
+        const profiles = stored ? sanitizeProfiles(JSON.parse(stored)) : [];
+        if (profiles.length > 0) return profiles;
+
+        let name = t('profiles.defaultName');
+        PROFILE_SETTING_KEYS.forEach(key => {
+            const value = window.localStorage.getItem(key);
+            if (value === null) return;
+            if (key === 'patientName') {
+                const patientName = JSON.parse(value);
+                if (typeof patientName === 'string' && patientName.trim()) {
+                    name = patientName.trim();
+                }
+            }
+            window.localStorage.setItem(profileStorageKey(DEFAULT_PROFILE_ID, key), value);
+            window.localStorage.removeItem(key);
+        });
+        const migrated = [{ id: DEFAULT_PROFILE_ID, name }];
+        window.localStorage.setItem(PROFILES_KEY, JSON.stringify(migrated));
+        return migrated;
+    } catch (error) {
+        console.error(error);
+        return [{ id: DEFAULT_PROFILE_ID, name: t('profiles.defaultName') }];
+    }
+};
+
+/** Removes every localStorage setting of a deleted profile. */
+export const removeProfileStorage = (profileId: string) => {
+    const prefix = profilePrefix(profileId);
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+    }
+    keys.forEach(key => window.localStorage.removeItem(key));
+};
+
+// Profile name as it goes into export file names: lowercase ASCII, no spaces.
+export const profileFileSlug = (name: string): string => {
+    const slug = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return slug || 'profile';
+};
@@ -0,0 +1,96 @@
+import { ReminderSettings } from '../types';
+import { t } from '../i18n';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+    timedVoidingEnabled: false,
+    intervalMinutes: 120,
+    inactivityEnabled: false,
+    inactivityMinutes: 240,
+    quietStartMinutes: 22 * 60,
+    quietEndMinutes: 7 * 60,
+};
+
+export type ReminderKind = 'timed' | 'inactivity';
+
+export interface ScheduledReminder {
+    kind: ReminderKind;
+    timestamp: number;
+}
+
+// Notification tags are "reminder-<kind>-<profileId>-<timestamp>"; the service worker uses the
+// same format to find and replace one profile's pending reminders.
+export const REMINDER_TAG_PREFIX = 'reminder-';
+
+// How far ahead to schedule. Timers only run while the app is open, so a day is plenty. Reminders
+// handed to the browser must last until the app is opened again; the service worker also tops
+// them up whenever one is tapped or dismissed (sw.js uses the same horizon).
+export const TIMER_HORIZON_MS = 24 * 60 * 60 * 1000;
+export const TRIGGER_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+const minutesOfDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.getHours() * 60 + date.getMinutes();
+};
+
+export const isQuietTime = (timestamp: number, settings: ReminderSettings): boolean => {
+    const minutes = minutesOfDay(timestamp);
+    const { quietStartMinutes: start, quietEndMinutes: end } = settings;
+    if (start === end) return false;
+    return start > end ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+};
+
+// First moment at or after `timestamp` that is outside quiet hours.
+const endOfQuietTime = (timestamp: number, settings: ReminderSettings): number => {
+    if (!isQuietTime(timestamp, settings)) return timestamp;
+    const date = new Date(timestamp);
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, settings.quietEndMinutes);
+    if (end.getTime() <= timestamp) {
+        end.setDate(end.getDate() + 1);
+    }
+    return end.getTime();
+};
+
+export const reminderTag = (profileId: string, reminder: ScheduledReminder) => `${REMINDER_TAG_PREFIX}${reminder.kind}-${profileId}-${reminder.timestamp}`;
+
+export const reminderMessage = (reminder: ScheduledReminder, settings: ReminderSettings): string => {
+    if (reminder.kind === 'timed') {
+        return t('reminder.timed');
+    }
+    const hours = Math.round(settings.inactivityMinutes / 60 * 10) / 10;
+    return t('reminder.inactivity', { hours });
+};
+
+/**
+ * Reminders due within `horizonMs`. Timed-voiding slots are counted from the end of quiet
+ * hours (wake-up), so they land on the same clock times every day.
+ */
+export const upcomingReminders = (settings: ReminderSettings, lastLogTimestamp: number | null, now: number, horizonMs: number): ScheduledReminder[] => {
+    const reminders: ScheduledReminder[] = [];
+    const horizon = now + horizonMs;
+
+    if (settings.timedVoidingEnabled && settings.intervalMinutes > 0) {
+        const date = new Date(now);
+        // Start from yesterday's wake-up so a schedule that began before midnight carries on.
+        const anchor = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 0, settings.quietEndMinutes);
+        for (let slot = anchor; slot.getTime() < horizon; slot.setMinutes(slot.getMinutes() + settings.intervalMinutes)) {
+            const timestamp = slot.getTime();
+            if (isQuietTime(timestamp, settings)) {
+                // Restart the cadence at the next wake-up rather than drifting through the night.
+                slot.setTime(endOfQuietTime(timestamp, settings) - settings.intervalMinutes * 60 * 1000);
+                continue;
+            }
+            if (timestamp > now) {
+                reminders.push({ kind: 'timed', timestamp });
+            }
+        }
+    }
+
+    if (settings.inactivityEnabled && settings.inactivityMinutes > 0 && lastLogTimestamp !== null) {
+        const due = endOfQuietTime(Math.max(lastLogTimestamp + settings.inactivityMinutes * 60 * 1000, now + 60 * 1000), settings);
+        if (due < horizon) {
+            reminders.push({ kind: 'inactivity', timestamp: due });
+        }
+    }
+
+    return reminders.sort((a, b) => a.timestamp - b.timestamp);
+};
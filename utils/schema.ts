@@ -0,0 +1,181 @@
+import { BeverageType, GlucoseTag, LogEntry, Medication, MedicationCategory, StoredLog, UrgencyScore } from '../types';
+
+// Bump this whenever the persisted shape of the log changes and add a step to `migrations`.
+export const LOG_SCHEMA_VERSION = 6;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+type Migration = (entries: unknown[]) => unknown[];
+
+// migrations[n] upgrades data from version n to version n + 1.
+const migrations: Record<number, Migration> = {
+    // v1 was a bare array of `{ id, timestamp }`; the new fields are all optional, so entries carry over as-is.
+    1: entries => entries,
+    // v3 switched ids from `Date.now()` numbers to collision-safe strings; clashing legacy ids get a suffix.
+    2: entries => {
+        const seen = new Set<string>();
+        return entries.map(entry => {
+            if (!isRecord(entry)) return entry;
+            const baseId = String(entry.id ?? entry.timestamp);
+            let id = baseId;
+            for (let n = 1; seen.has(id); n++) {
+                id = `${baseId}-${n}`;
+            }
+            seen.add(id);
+            return { ...entry, id };
+        });
+    },
+    // v4 added drink (intake) entries; everything logged before is a void, which is what a missing kind means.
+    3: entries => entries,
+    // v5 added blood glucose readings; again nothing to convert.
+    4: entries => entries,
+    // v6 added medication dose events; nothing to convert.
+    5: entries => entries,
+};
+
+const BEVERAGE_TYPES: BeverageType[] = ['water', 'coffee', 'tea', 'juice', 'soda', 'milk', 'alcohol', 'other'];
+const GLUCOSE_TAGS: GlucoseTag[] = ['fasting', 'preMeal', 'postMeal'];
+const MEDICATION_CATEGORIES: MedicationCategory[] = ['diuretic', 'sglt2', 'insulin', 'other'];
+
+/** Thrown for a log written by a newer version of the app; the data must be left untouched. */
+export class NewerSchemaError extends Error {
+    constructor(version: number) {
+        super(`Unsupported log schema version ${version}`);
+        this.name = 'NewerSchemaError';
+    }
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+export const isVoid = (entry: LogEntry): boolean => entry.kind === undefined || entry.kind === 'void';
+
+export const isIntake = (entry: LogEntry): boolean => entry.kind === 'intake';
+
+export const isGlucose = (entry: LogEntry): boolean => entry.kind === 'glucose';
+
+export const isDose = (entry: LogEntry): boolean => entry.kind === 'dose';
+
+export const createEntryId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    // randomUUID is only exposed in secure contexts; fall back to timestamp + random bits.
+    const random = Array.from(crypto.getRandomValues(new Uint32Array(2)), n => n.toString(36)).join('');
+    return `${Date.now().toString(36)}-${random}`;
+};
+
+const sanitizeEntry = (raw: unknown): LogEntry | null => {
+    if (!isRecord(raw) || typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) {
+        return null;
+    }
+    const entry: LogEntry = {
+        id: typeof raw.id === 'string' && raw.id !== '' ? raw.id : createEntryId(),
+        timestamp: raw.timestamp,
+    };
+    if (typeof raw.volumeMl === 'number' && raw.volumeMl > 0) {
+        entry.volumeMl = raw.volumeMl;
+    }
+    if (raw.kind === 'dose') {
+        if (!isNonEmptyString(raw.medicationName)) return null;
+        const dose: LogEntry = { id: entry.id, timestamp: entry.timestamp, kind: 'dose', medicationName: raw.medicationName };
+        if (typeof raw.medicationId === 'string' && raw.medicationId !== '') {
+            dose.medicationId = raw.medicationId;
+        }
+        if (isNonEmptyString(raw.dose)) {
+            dose.dose = raw.dose;
+        }
+        if (isNonEmptyString(raw.note)) {
+            dose.note = raw.note;
+        }
+        return dose;
+    }
+    if (raw.kind === 'glucose') {
+        if (typeof raw.glucoseMgDl !== 'number' || !(raw.glucoseMgDl > 0)) return null;
+        const reading: LogEntry = { id: entry.id, timestamp: entry.timestamp, kind: 'glucose', glucoseMgDl: raw.glucoseMgDl };
+        if (isOneOf(GLUCOSE_TAGS, raw.glucoseTag)) {
+            reading.glucoseTag = raw.glucoseTag;
+        }
+        if (isNonEmptyString(raw.note)) {
+            reading.note = raw.note;
+        }
+        return reading;
+    }
+    if (raw.kind === 'intake') {
+        // A drink without an amount says nothing about intake.
+        if (entry.volumeMl === undefined) return null;
+        entry.kind = 'intake';
+        if (isOneOf(BEVERAGE_TYPES, raw.beverage)) {
+            entry.beverage = raw.beverage;
+        }
+        if (isNonEmptyString(raw.note)) {
+            entry.note = raw.note;
+        }
+        return entry;
+    }
+    if (typeof raw.urgency === 'number' && raw.urgency >= 0 && raw.urgency <= 4) {
+        entry.urgency = Math.round(raw.urgency) as UrgencyScore;
+    }
+    if (raw.leakage === true) {
+        entry.leakage = true;
+    }
+    if (isNonEmptyString(raw.note)) {
+        entry.note = raw.note;
+    }
+    return entry;
+};
+
+/**
+ * Reads whatever is stored under the log key (a legacy bare array or a versioned
+ * `StoredLog`) and returns the entries upgraded to the current schema.
+ * Throws `NewerSchemaError` rather than guess at a shape this version doesn't know.
+ */
+export const migrateLog = (raw: unknown): LogEntry[] => {
+    let version: number;
+    let entries: unknown[];
+
+    if (Array.isArray(raw)) {
+        version = 1;
+        entries = raw;
+    } else if (isRecord(raw) && Array.isArray(raw.entries)) {
+        version = typeof raw.version === 'number' ? raw.version : 1;
+        entries = raw.entries;
+    } else {
+        return [];
+    }
+
+    if (version > LOG_SCHEMA_VERSION) {
+        throw new NewerSchemaError(version);
+    }
+    for (let v = version; v < LOG_SCHEMA_VERSION; v++) {
+        entries = migrations[v](entries);
+    }
+
+    return entries.map(sanitizeEntry).filter((entry): entry is LogEntry => entry !== null);
+};
+
+export const serializeLog = (entries: LogEntry[]): StoredLog => ({
+    version: LOG_SCHEMA_VERSION,
+    entries,
+});
+
+/** Reads a profile's stored medication list, dropping anything that isn't a usable medication. */
+export const sanitizeMedications = (raw: unknown): Medication[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((item): Medication[] => {
+        if (!isRecord(item) || typeof item.id !== 'string' || item.id === '' || !isNonEmptyString(item.name)) return [];
+        const medication: Medication = {
+            id: item.id,
+            name: item.name,
+            category: isOneOf(MEDICATION_CATEGORIES, item.category) ? item.category : 'other',
+        };
+        if (isNonEmptyString(item.dose)) {
+            medication.dose = item.dose;
+        }
+        if (typeof item.startDayKey === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.startDayKey)) {
+            medication.startDayKey = item.startDayKey;
+        }
+        return [medication];
+    });
+};
@@ -0,0 +1,116 @@
+import { SealedData, seal, unseal } from './crypto';
+import { isHealthDataKey } from './profiles';
+import { isRecord } from './schema';
+
+// localStorage counterpart of the sealed log in logDb: while the app lock is on, the settings
+// that hold health data are stored as { sealed } and only kept readable in memory between
+// unlocking and locking again. useLocalStorage reads and writes through here.
+
+interface SealedItem {
+    sealed: SealedData;
+}
+
+// Set while the app lock is on and unlocked; the same key the log is sealed with.
+let sealingKey: CryptoKey | null = null;
+// Decrypted sealed items by localStorage key, as the JSON text that was sealed.
+const unsealed = new Map<string, string>();
+// Sealing is asynchronous; chaining the writes keeps them in the order they were made.
+let pendingWrites: Promise<void> = Promise.resolve();
+
+const parseSealedItem = (raw: string | null): SealedItem | null => {
+    if (raw === null) return null;
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        return isRecord(parsed) && isRecord(parsed.sealed) ? parsed as unknown as SealedItem : null;
+    } catch {
+        return null;
+    }
+};
+
+const storedNames = (): string[] => {
+    const names: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+        const name = window.localStorage.key(i);
+        if (name !== null) names.push(name);
+    }
+    return names;
+};
+
+/** The stored JSON text of an item, decrypted if it is sealed. */
+export const readItem = (name: string): string | null => {
+    return unsealed.get(name) ?? window.localStorage.getItem(name);
+};
+
+export const writeItem = (name: string, text: string) => {
+    // Taken now, so a write still waiting when the app locks is sealed all the same.
+    const key = sealingKey;
+    if (!key || !isHealthDataKey(name)) {
+        unsealed.delete(name);
+        window.localStorage.setItem(name, text);
+        return;
+    }
+    unsealed.set(name, text);
+    pendingWrites = pendingWrites
+        .then(async () => window.localStorage.setItem(name, JSON.stringify({ sealed: await seal(key, text) })))
+        .catch(error => console.error(error));
+};
+
+/**
+ * The new JSON text of an item another tab changed, decrypted if it is sealed. Resolves to null
+ * when it was removed, or is sealed and this tab is locked.
+ */
+export const readChangedItem = async (name: string, raw: string | null): Promise<string | null> => {
+    const item = parseSealedItem(raw);
+    if (!item) {
+        unsealed.delete(name);
+        return raw;
+    }
+    if (!sealingKey) return null;
+    const text = await unseal<string>(sealingKey, item.sealed);
+    unsealed.set(name, text);
+    return text;
+};
+
+/** Decrypts every sealed item with the key the app was just unlocked with. */
+export const unsealStorage = async (key: CryptoKey): Promise<void> => {
+    sealingKey = key;
+    await Promise.all(storedNames().map(async name => {
+        const item = parseSealedItem(window.localStorage.getItem(name));
+        if (item) unsealed.set(name, await unseal<string>(key, item.sealed));
+    }));
+};
+
+/** Forgets the key and every decrypted value when the app locks. */
+export const lockStorage = () => {
+    sealingKey = null;
+    unsealed.clear();
+};
+
+/**
+ * Rewrites every health data item with `nextKey`, or in the clear when it is null, and starts
+ * using it. Switching the lock off needs the items decrypted first (see unsealStorage). With
+ * `onlyPlain`, just seals what an interrupted switch-on left in the clear.
+ */
+export const resealStorage = async (nextKey: CryptoKey | null, onlyPlain = false): Promise<void> => {
+    await pendingWrites;
+    const items = storedNames()
+        .filter(isHealthDataKey)
+        .filter(name => !onlyPlain || !parseSealedItem(window.localStorage.getItem(name)))
+        .map(name => ({ name, text: readItem(name) }))
+        // Still sealed means it could not be decrypted: left alone rather than lost.
+        .filter((item): item is { name: string; text: string } => item.text !== null && !parseSealedItem(item.text));
+    const rewritten = await Promise.all(items.map(async ({ name, text }) => ({
+        name,
+        text,
+        stored: nextKey ? JSON.stringify({ sealed: await seal(nextKey, text) }) : text,
+    })));
+    rewritten.forEach(({ name, text, stored }) => {
+        window.localStorage.setItem(name, stored);
+        if (nextKey) {
+            unsealed.set(name, text);
+        } else {
+            unsealed.delete(name);
+        }
+    });
+    sealingKey = nextKey;
+};
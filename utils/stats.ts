@@ -0,0 +1,309 @@
+import { DaySettings, LogEntry } from '../types';
+import { isGlucose, isVoid } from './schema';
+import { addDays, dayKeyOf, DayKeyRange, dayNightKeyOf, dayRange, eachDayKey, isInRange, isNightTime, todayKey } from './dates';
+
+export interface DaySummary {
+    // Diary day key, "YYYY-MM-DD".
+    dayKey: string;
+    entries: LogEntry[];
+    dayCount: number;
+    // Voids during the night that starts on this day (nocturia), even those logged after midnight.
+    nightCount: number;
+    totalVolumeMl: number;
+    // Number of voids on this day that have a recorded volume.
+    measuredCount: number;
+    leakageCount: number;
+}
+
+export interface DiarySummary {
+    days: DaySummary[];
+    totalVoids: number;
+    dayCount: number;
+    nightCount: number;
+    // Between voids in the same waking hours; see `summarizeDiary`.
+    meanIntervalMs: number | null;
+    longestIntervalMs: number | null;
+    totalVolumeMl: number;
+    meanVolumeMl: number | null;
+    measuredCount: number;
+    leakageCount: number;
+}
+
+export const emptyDaySummary = (dayKey: string): DaySummary => ({
+    dayKey, entries: [], dayCount: 0, nightCount: 0, totalVolumeMl: 0, measuredCount: 0, leakageCount: 0,
+});
+
+export const summarizeDiary = (entries: LogEntry[], settings: DaySettings): DiarySummary => {
+    const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+    const byDay = new Map<string, DaySummary>();
+    const dayFor = (dayKey: string) => {
+        let day = byDay.get(dayKey);
+        if (!day) {
+            day = emptyDaySummary(dayKey);
+            byDay.set(dayKey, day);
+        }
+        return day;
+    };
+
+    for (const entry of sorted) {
+        const day = dayFor(dayKeyOf(entry.timestamp, settings));
+        day.entries.push(entry);
+        const splitDay = dayFor(dayNightKeyOf(entry.timestamp, settings));
+        if (isNightTime(entry.timestamp, settings)) {
+            splitDay.nightCount++;
+        } else {
+            splitDay.dayCount++;
+        }
+        if (entry.volumeMl !== undefined) {
+            day.totalVolumeMl += entry.volumeMl;
+            day.measuredCount++;
+        }
+        if (entry.leakage) {
+            day.leakageCount++;
+        }
+    }
+
+    // Gaps that span a whole diary day without entries say more about the logging than the bladder
+    // and are left out. The mean only takes intervals within the same waking hours, since the one
+    // across the sleep window is as long as the night; the longest interval still includes it.
+    const intervals: number[] = [];
+    const wakingIntervals: number[] = [];
+    sorted.slice(1).forEach((entry, i) => {
+        const previous = sorted[i];
+        if (dayKeyOf(entry.timestamp, settings) > addDays(dayKeyOf(previous.timestamp, settings), 1)) return;
+        const interval = entry.timestamp - previous.timestamp;
+        intervals.push(interval);
+        if (!isNightTime(previous.timestamp, settings) && !isNightTime(entry.timestamp, settings)
+            && dayNightKeyOf(previous.timestamp, settings) === dayNightKeyOf(entry.timestamp, settings)) {
+            wakingIntervals.push(interval);
+        }
+    });
+    const days = Array.from(byDay.values()).sort((a, b) => a.dayKey.localeCompare(b.dayKey));
+    const sum = (pick: (day: DaySummary) => number) => days.reduce((total, day) => total + pick(day), 0);
+    const totalVolumeMl = sum(day => day.totalVolumeMl);
+    const measuredCount = sum(day => day.measuredCount);
+
+    return {
+        days,
+        totalVoids: sorted.length,
+        dayCount: sum(day => day.dayCount),
+        nightCount: sum(day => day.nightCount),
+        meanIntervalMs: wakingIntervals.length > 0 ? wakingIntervals.reduce((a, b) => a + b, 0) / wakingIntervals.length : null,
+        longestIntervalMs: intervals.length > 0 ? Math.max(...intervals) : null,
+        totalVolumeMl,
+        meanVolumeMl: measuredCount > 0 ? totalVolumeMl / measuredCount : null,
+        measuredCount,
+        leakageCount: sum(day => day.leakageCount),
+    };
+};
+
+export const entriesInRange = (entries: LogEntry[], range: DayKeyRange, settings: DaySettings): LogEntry[] => {
+    if (range.fromKey === null && range.toKey === null) return entries;
+    return entries.filter(entry => isInRange(dayKeyOf(entry.timestamp, settings), range));
+};
+
+export interface Distribution {
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+}
+
+export type Trend = 'up' | 'down' | 'flat';
+
+export interface PeriodStats {
+    // Every diary day in the period, oldest first, including days without voids.
+    dayKeys: string[];
+    dailyCounts: number[];
+    perDay: Distribution | null;
+    summary: DiarySummary;
+    // Mean day-time and night-time voids per day of the period.
+    dayPerDay: number;
+    nightPerDay: number;
+    // Rolling 7-day average for each finished day of the period; empty when today is the only one.
+    rollingAverage: number[];
+    // Average over the 7 days before that, to compare against the latest rolling value.
+    previousRollingAverage: number | null;
+    trend: Trend;
+    // Consecutive days with at least one void, ending today (or yesterday if nothing is logged yet today).
+    streak: number;
+}
+
+const ROLLING_WINDOW_DAYS = 7;
+// Changes smaller than this (in voids per day) are shown as a flat trend.
+const TREND_THRESHOLD = 0.5;
+
+export const distributionOf = (values: number[]): Distribution | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+        mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+        median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+    };
+};
+
+export const computePeriodStats = (entries: LogEntry[], range: DayKeyRange, settings: DaySettings): PeriodStats => {
+    const today = todayKey(settings);
+    const countsByDay = new Map<string, number>();
+    for (const entry of entries) {
+        const key = dayKeyOf(entry.timestamp, settings);
+        countsByDay.set(key, (countsByDay.get(key) ?? 0) + 1);
+    }
+    const countOn = (key: string) => countsByDay.get(key) ?? 0;
+
+    const oldestKey = entries.length > 0
+        ? dayKeyOf(entries.reduce((min, entry) => Math.min(min, entry.timestamp), Infinity), settings)
+        : today;
+    // An open range runs from the first void to today; a closed one may end in the past.
+    const endKey = range.toKey !== null && range.toKey < today ? range.toKey : today;
+    const startKey = range.fromKey ?? (oldestKey < endKey ? oldestKey : endKey);
+    const dayKeys = eachDayKey(startKey, endKey);
+    const dailyCounts = dayKeys.map(countOn);
+
+    const rangeStart = dayRange(startKey, settings).start;
+    const rangeEnd = dayRange(endKey, settings).end;
+    const summary = summarizeDiary(entries.filter(entry => entry.timestamp >= rangeStart && entry.timestamp < rangeEnd), settings);
+
+    // Averages over the window of days ending at (and including) `windowEnd`. Days before the first
+    // void weren't logged rather than empty, so the window starts no earlier than that.
+    const windowAverage = (windowEnd: string) => {
+        const windowStart = addDays(windowEnd, -(ROLLING_WINDOW_DAYS - 1));
+        const windowKeys = eachDayKey(windowStart > oldestKey ? windowStart : oldestKey, windowEnd);
+        return windowKeys.reduce((total, key) => total + countOn(key), 0) / windowKeys.length;
+    };
+    // Today is still under way and would pull the average down, so it ends with yesterday.
+    const rollingKeys = dayKeys.filter(key => key < today && key >= oldestKey);
+    const rollingAverage = rollingKeys.map(windowAverage);
+    const latestKey = rollingKeys[rollingKeys.length - 1];
+    const previousEnd = latestKey !== undefined ? addDays(latestKey, -ROLLING_WINDOW_DAYS) : null;
+    const previousRollingAverage = previousEnd !== null && oldestKey <= previousEnd ? windowAverage(previousEnd) : null;
+    let trend: Trend = 'flat';
+    const latest = rollingAverage[rollingAverage.length - 1];
+    if (previousRollingAverage !== null && Math.abs(latest - previousRollingAverage) >= TREND_THRESHOLD) {
+        trend = latest > previousRollingAverage ? 'up' : 'down';
+    }
+
+    let streak = 0;
+    for (let key = countOn(today) > 0 ? today : addDays(today, -1); countOn(key) > 0; key = addDays(key, -1)) {
+        streak++;
+    }
+
+    return {
+        dayKeys,
+        dailyCounts,
+        perDay: distributionOf(dailyCounts),
+        summary,
+        dayPerDay: summary.dayCount / dayKeys.length,
+        nightPerDay: summary.nightCount / dayKeys.length,
+        rollingAverage,
+        previousRollingAverage,
+        trend,
+        streak,
+    };
+};
+
+export interface DayGlucose {
+    dayKey: string;
+    voidCount: number;
+    readingCount: number;
+    meanGlucoseMgDl: number | null;
+}
+
+/** Void count and mean glucose for every diary day with either, oldest first. Other entry kinds are ignored. */
+export const dailyGlucose = (entries: LogEntry[], settings: DaySettings): DayGlucose[] => {
+    const byDay = new Map<string, DayGlucose & { totalMgDl: number }>();
+    for (const entry of entries) {
+        const glucose = isGlucose(entry);
+        if (!glucose && !isVoid(entry)) continue;
+        const dayKey = dayKeyOf(entry.timestamp, settings);
+        let day = byDay.get(dayKey);
+        if (!day) {
+            day = { dayKey, voidCount: 0, readingCount: 0, meanGlucoseMgDl: null, totalMgDl: 0 };
+            byDay.set(dayKey, day);
+        }
+        if (glucose) {
+            day.readingCount++;
+            day.totalMgDl += entry.glucoseMgDl ?? 0;
+        } else {
+            day.voidCount++;
+        }
+    }
+    return Array.from(byDay.values())
+        .sort((a, b) => a.dayKey.localeCompare(b.dayKey))
+        .map(({ totalMgDl, ...day }) => ({ ...day, meanGlucoseMgDl: day.readingCount > 0 ? totalMgDl / day.readingCount : null }));
+};
+
+/** Pearson correlation coefficient, or null with fewer than three pairs or no variation. */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+    const n = Math.min(xs.length, ys.length);
+    if (n < 3) return null;
+    const meanX = xs.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (xs[i] - meanX) * (ys[i] - meanY);
+        varianceX += (xs[i] - meanX) ** 2;
+        varianceY += (ys[i] - meanY) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+export interface WindowStats {
+    // First and last diary day of the window, both included; null when the diary doesn't cover it at all.
+    fromKey: string | null;
+    toKey: string | null;
+    dayCount: number;
+    voidCount: number;
+    perDay: number | null;
+    nightPerDay: number | null;
+}
+
+export interface BeforeAfterComparison {
+    before: WindowStats;
+    after: WindowStats;
+    // Relative change in voids per day, e.g. 0.25 for 25 % more after the reference day.
+    change: number | null;
+}
+
+/**
+ * Void frequency over the `windowDays` days before `referenceKey` and the same number of days
+ * from it onwards. Windows are clipped to the days the diary covers (first void to today), so
+ * days before the patient started logging, or still in the future, don't count as zero.
+ */
+export const compareAroundDay = (entries: LogEntry[], referenceKey: string, windowDays: number, settings: DaySettings): BeforeAfterComparison => {
+    const today = todayKey(settings);
+    const oldestKey = entries.length > 0
+        ? dayKeyOf(entries.reduce((min, entry) => Math.min(min, entry.timestamp), Infinity), settings)
+        : today;
+
+    const windowStats = (fromKey: string, toKey: string): WindowStats => {
+        const from = fromKey < oldestKey ? oldestKey : fromKey;
+        const to = toKey > today ? today : toKey;
+        if (from > to) {
+            return { fromKey: null, toKey: null, dayCount: 0, voidCount: 0, perDay: null, nightPerDay: null };
+        }
+        const { start } = dayRange(from, settings);
+        const { end } = dayRange(to, settings);
+        const summary = summarizeDiary(entries.filter(entry => entry.timestamp >= start && entry.timestamp < end), settings);
+        const dayCount = eachDayKey(from, to).length;
+        return {
+            fromKey: from,
+            toKey: to,
+            dayCount,
+            voidCount: summary.totalVoids,
+            perDay: summary.totalVoids / dayCount,
+            nightPerDay: summary.nightCount / dayCount,
+        };
+    };
+
+    const before = windowStats(addDays(referenceKey, -windowDays), addDays(referenceKey, -1));
+    const after = windowStats(referenceKey, addDays(referenceKey, windowDays - 1));
+    const change = before.perDay && after.perDay !== null ? (after.perDay - before.perDay) / before.perDay : null;
+    return { before, after, change };
+};
@@ -0,0 +1,138 @@
+import { ClinicalThresholds, DaySettings, LogEntry, ThresholdKind, VolumeUnit } from '../types';
+import { formatNumber, MessageKey, t } from '../i18n';
+import { addDays, dayKeyOf, eachDayKey, todayKey } from './dates';
+import { formatVolume } from './format';
+import { DaySummary, summarizeDiary } from './stats';
+
+// Common clinical cut-offs: urinary frequency, nocturia and polyuria.
+export const DEFAULT_THRESHOLDS: ClinicalThresholds = {
+    maxVoidsPerDay: 8,
+    maxNightVoids: 1,
+    maxOutputMl: 3000,
+};
+
+const THRESHOLD_FIELDS: Record<ThresholdKind, keyof ClinicalThresholds> = {
+    voids: 'maxVoidsPerDay',
+    night: 'maxNightVoids',
+    output: 'maxOutputMl',
+};
+
+const THRESHOLD_KINDS = Object.keys(THRESHOLD_FIELDS) as ThresholdKind[];
+
+// The recent trend is the average of the last full diary days, leaving out today because it isn't over yet.
+const RECENT_WINDOW_DAYS = 7;
+// Fewer days than this are too few to call a trend.
+const RECENT_MIN_DAYS = 3;
+
+/** A value above its limit: one day's, or the recent average in an alert. */
+export interface ThresholdExceedance {
+    kind: ThresholdKind;
+    value: number;
+    limit: number;
+}
+
+export interface RecentThresholdAlert {
+    // Number of days averaged.
+    dayCount: number;
+    exceedances: ThresholdExceedance[];
+}
+
+const EXCEEDANCE_MESSAGE_KEYS: Record<ThresholdKind, MessageKey> = {
+    voids: 'thresholds.voids',
+    night: 'thresholds.night',
+    output: 'thresholds.output',
+};
+
+const LIMIT_MESSAGE_KEYS: Record<ThresholdKind, MessageKey> = {
+    voids: 'thresholds.limitVoids',
+    night: 'thresholds.limitNight',
+    output: 'thresholds.limitOutput',
+};
+
+const thresholdLimit = (thresholds: ClinicalThresholds, kind: ThresholdKind): number | null => thresholds[THRESHOLD_FIELDS[kind]];
+
+export const sanitizeThresholds = (raw: unknown): ClinicalThresholds => {
+    const stored = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof ClinicalThresholds, unknown>>;
+    const limit = (key: keyof ClinicalThresholds) => {
+        const value = stored[key];
+        if (value === null) return null;
+        return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : DEFAULT_THRESHOLDS[key];
+    };
+    return { maxVoidsPerDay: limit('maxVoidsPerDay'), maxNightVoids: limit('maxNightVoids'), maxOutputMl: limit('maxOutputMl') };
+};
+
+const dayValue = (day: DaySummary, kind: ThresholdKind): number | null => {
+    if (kind === 'voids') return day.entries.length;
+    if (kind === 'night') return day.nightCount;
+    // Output is only known for days with measured voids.
+    return day.measuredCount > 0 ? day.totalVolumeMl : null;
+};
+
+const formatThresholdValue = (kind: ThresholdKind, value: number, unit: VolumeUnit): string => {
+    return kind === 'output' ? formatVolume(value, unit) : formatNumber(value, { maximumFractionDigits: 1 });
+};
+
+// "12 voids (limit 8)"
+export const describeExceedance = ({ kind, value, limit }: ThresholdExceedance, unit: VolumeUnit): string => {
+    return t(EXCEEDANCE_MESSAGE_KEYS[kind], { value: formatThresholdValue(kind, value, unit), limit: formatThresholdValue(kind, limit, unit) });
+};
+
+// "more than 8 voids per day", one per limit that is on.
+export const describeThresholds = (thresholds: ClinicalThresholds, unit: VolumeUnit): string[] => {
+    return THRESHOLD_KINDS.flatMap(kind => {
+        const limit = thresholdLimit(thresholds, kind);
+        return limit === null ? [] : [t(LIMIT_MESSAGE_KEYS[kind], { limit: formatThresholdValue(kind, limit, unit) })];
+    });
+};
+
+const exceedances = (value: (kind: ThresholdKind) => number | null, thresholds: ClinicalThresholds): ThresholdExceedance[] => {
+    return THRESHOLD_KINDS.flatMap(kind => {
+        const limit = thresholdLimit(thresholds, kind);
+        const actual = value(kind);
+        return limit !== null && actual !== null && actual > limit ? [{ kind, value: actual, limit }] : [];
+    });
+};
+
+export const dayExceedances = (day: DaySummary, thresholds: ClinicalThresholds): ThresholdExceedance[] => {
+    return exceedances(kind => dayValue(day, kind), thresholds);
+};
+
+/** Diary days of the voids that are above a limit, with what was exceeded. Days within every limit are left out. */
+export const flagDays = (voids: LogEntry[], settings: DaySettings, thresholds: ClinicalThresholds): Map<string, ThresholdExceedance[]> => {
+    const flagged = new Map<string, ThresholdExceedance[]>();
+    for (const day of summarizeDiary(voids, settings).days) {
+        const exceeded = dayExceedances(day, thresholds);
+        if (exceeded.length > 0) {
+            flagged.set(day.dayKey, exceeded);
+        }
+    }
+    return flagged;
+};
+
+/**
+ * Limits that the average of the recent days is above, or null when it is within all of them.
+ * Days before the first void don't count, so a diary started this week isn't averaged against empty days.
+ */
+export const recentThresholdAlert = (voids: LogEntry[], settings: DaySettings, thresholds: ClinicalThresholds): RecentThresholdAlert | null => {
+    if (voids.length === 0) return null;
+    const oldestKey = dayKeyOf(voids.reduce((min, entry) => Math.min(min, entry.timestamp), Infinity), settings);
+    const toKey = addDays(todayKey(settings), -1);
+    const windowStart = addDays(toKey, -(RECENT_WINDOW_DAYS - 1));
+    const fromKey = oldestKey > windowStart ? oldestKey : windowStart;
+    const dayKeys = fromKey <= toKey ? eachDayKey(fromKey, toKey) : [];
+    if (dayKeys.length < RECENT_MIN_DAYS) return null;
+
+    const byKey = new Map(summarizeDiary(voids, settings).days.map(day => [day.dayKey, day]));
+    const average = (kind: ThresholdKind): number | null => {
+        const values = dayKeys
+            .map(key => {
+                const day = byKey.get(key);
+                // An unlogged day counts as zero voids, but says nothing about output.
+                return day ? dayValue(day, kind) : kind === 'output' ? null : 0;
+            })
+            .filter((value): value is number => value !== null);
+        return values.length >= RECENT_MIN_DAYS ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    };
+    const exceeded = exceedances(average, thresholds);
+    return exceeded.length > 0 ? { dayCount: dayKeys.length, exceedances: exceeded } : null;
+};
@@ -1,7 +1,58 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits sw.js into the build with a precache manifest of every generated file and a cache
+ * version derived from them and from sw.js itself, so a fresh install works offline and each deploy
+ * (including one that only changes the worker) gets its own cache.
+ * In development the plain sw.js is served as-is and only handles notifications.
+ */
+const serviceWorker = (): Plugin => {
+    const source = path.resolve(__dirname, 'sw.js');
+    let base = '/';
+    return {
+        name: 'registro-miccion:service-worker',
+        apply: 'build',
+        enforce: 'post',
+        configResolved(config) {
+            base = config.base;
+        },
+        buildStart() {
+            this.addWatchFile(source);
+        },
+        generateBundle(_options, bundle) {
+            const workerSource = fs.readFileSync(source, 'utf-8');
+            const fileNames = Object.keys(bundle).sort();
+            const hash = createHash('sha256');
+            hash.update(workerSource);
+            fileNames.forEach(fileName => {
+                const output = bundle[fileName];
+                hash.update(fileName);
+                hash.update(output.type === 'chunk' ? output.code : output.source);
+            });
+
+            // Cross-origin scripts the page cannot run without (e.g. the Tailwind CDN build).
+            const html = bundle['index.html'];
+            const htmlSource = html && html.type === 'asset' ? String(html.source) : '';
+            const external = [...htmlSource.matchAll(/<script[^>]*\ssrc="(https?:\/\/[^"]+)"/g)].map(match => match[1]);
+
+            const manifest = {
+                version: hash.digest('hex').slice(0, 12),
+                precache: fileNames.map(fileName => base + fileName),
+                external,
+            };
+            this.emitFile({
+                type: 'asset',
+                fileName: 'sw.js',
+                source: `self.__BUILD_MANIFEST = ${JSON.stringify(manifest)};\n${workerSource}`,
+            });
+        },
+    };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +60,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
+      build: {
+        // The localized web app manifests are swapped in at runtime and must stay real files:
+        // a data: URL manifest has no origin to resolve start_url against. They end up in
+        // /assets/, so their start_url is absolute rather than relative to the file.
+        assetsInlineLimit: (filePath: string) => filePath.endsWith('.json') ? false : undefined,
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)